@@ -1,12 +1,17 @@
 import { ChildProcessWithoutNullStreams, execFile, spawn } from 'node:child_process';
 import * as cp from 'node:child_process';
 import { promisify } from 'node:util';
+import { StringDecoder } from 'node:string_decoder';
 
 import { AppleContainerError, ErrorCode, toAppleContainerError } from '../core/errors';
 import { log, logCommand, logError, logWarn } from '../core/logger';
 
 const execFileAsync = promisify(execFile);
 
+// Registry responses that mean the request needs (different) credentials.
+const AUTH_FAILURE_PATTERN = /unauthorized|authentication required|status(?: code)?:? 401|no basic auth credentials|denied: requested access|insufficient_scope|access to the requested resource is not authorized/i;
+const STREAM_TAIL_LINES = 3;
+
 export type SystemAction = 'start' | 'stop' | 'restart';
 
 export interface ContainerSummary {
@@ -20,9 +25,14 @@ export interface ContainerSummary {
   os?: string;
   arch?: string;
   address?: string;
+  // Names of the networks the container is attached to.
+  networks?: string[];
   volumes?: string;
+  // Names of the named volumes mounted into the container.
+  namedVolumes?: string[];
   cpus?: string;
   memory?: string;
+  labels?: Record<string, string>;
 }
 
 export interface ImageSummary {
@@ -30,11 +40,66 @@ export interface ImageSummary {
   repository: string;
   tag: string;
   size?: string;
+  sizeBytes?: number;
   createdAt?: string;
   digest?: string;
+  // Platforms in the image index; undefined when the CLI did not report them.
+  variants?: ImagePlatformVariant[];
   inUse?: boolean;
 }
 
+export interface ImagePlatformVariant {
+  platform: string;
+  architecture?: string;
+  os?: string;
+  variant?: string;
+  digest?: string;
+  size?: string;
+}
+
+export interface ImageHistoryEntry {
+  created?: string;
+  createdBy?: string;
+  comment?: string;
+  emptyLayer: boolean;
+}
+
+export interface ImageVariantDetails extends ImagePlatformVariant {
+  created?: string;
+  entrypoint?: string[];
+  cmd?: string[];
+  workingDir?: string;
+  user?: string;
+  env: Record<string, string>;
+  exposedPorts: string[];
+  labels: Record<string, string>;
+  layers: number;
+  history: ImageHistoryEntry[];
+}
+
+export interface ImageDetails {
+  reference: string;
+  digest?: string;
+  mediaType?: string;
+  size?: string;
+  variants: ImageVariantDetails[];
+  // Unparsed inspect output, for anything the summary does not cover.
+  raw: Record<string, unknown>;
+}
+
+export interface ImageTransferOptions {
+  platform?: string;
+  // Receives each line of CLI output, including progress updates.
+  onOutput?: (line: string) => void;
+  // Aborting kills the transfer.
+  signal?: AbortSignal;
+}
+
+export interface ImagePullOptions extends ImageTransferOptions {
+  arch?: string;
+  os?: string;
+}
+
 export interface ExecOptions {
   timeout?: number;
   cwd?: string;
@@ -71,14 +136,61 @@ export interface ContainerBuildOptions {
   progress?: 'auto' | 'plain' | 'tty';
   additionalOptions?: string[];
   cwd?: string;
+  // Receives each line of build output in addition to the extension log.
+  onOutput?: (line: string) => void;
+}
+
+export interface BuilderStatus {
+  running: boolean;
+  state?: string;
+  image?: string;
+  cpus?: string;
+  memory?: string;
+  // Unparsed status output, for anything the summary does not cover.
+  raw?: unknown;
 }
 
+export type MountType = 'bind' | 'volume' | 'tmpfs';
+
 export interface VolumeMapping {
+  // Defaults to `bind`.
+  type?: MountType;
+  // Host path for binds, volume name for named volumes, empty for tmpfs.
   source: string;
   target: string;
   readOnly?: boolean;
 }
 
+export interface NetworkSummary {
+  name: string;
+  state?: string;
+  mode?: string;
+  subnet?: string;
+  gateway?: string;
+  labels?: Record<string, string>;
+}
+
+// A registry the CLI holds credentials for (`container registry list`).
+export interface RegistryLogin {
+  server: string;
+  username?: string;
+}
+
+export interface NetworkCreateOptions {
+  subnet?: string;
+  labels?: Record<string, string>;
+}
+
+export interface VolumeSummary {
+  name: string;
+  driver?: string;
+  format?: string;
+  source?: string;
+  size?: string;
+  createdAt?: string;
+  labels?: Record<string, string>;
+}
+
 export interface ContainerCreateOptions {
   image: string;
   name?: string;
@@ -87,14 +199,49 @@ export interface ContainerCreateOptions {
   memory?: string;
   ports?: string[];
   volumes?: VolumeMapping[];
+  network?: string;
+  labels?: Record<string, string>;
   additionalArgs?: string[];
   detach?: boolean;
   command?: string[];
 }
 
+/**
+ * Splits streamed process output into lines. A line (or a multi-byte character) may span several
+ * chunks, so the unterminated tail is carried over to the next chunk; progress redrawn in place
+ * with carriage returns counts as separate lines.
+ */
+class LineSplitter {
+  private readonly decoder = new StringDecoder('utf8');
+  private partial = '';
+
+  constructor(private readonly onLine: (line: string) => void) { }
+
+  push(chunk: Buffer): void {
+    const pieces = (this.partial + this.decoder.write(chunk)).split(/\r\n|\r|\n/);
+    this.partial = pieces.pop() ?? '';
+    pieces.forEach(this.onLine);
+  }
+
+  flush(): void {
+    const rest = this.partial + this.decoder.end();
+    this.partial = '';
+    if (rest) {
+      this.onLine(rest);
+    }
+  }
+}
+
 export class ContainerCli {
+  // Platform variants by image digest; an image's variants never change for a given digest.
+  private readonly variantCache = new Map<string, ImagePlatformVariant[]>();
+
   constructor(private readonly binary: string = 'container') { }
 
+  get executable(): string {
+    return this.binary;
+  }
+
   async exec(args: string[], options: ExecOptions = {}): Promise<{ stdout: string; stderr: string }> {
     logCommand(this.binary, args);
 
@@ -156,6 +303,42 @@ export class ContainerCli {
     return containers.find(c => c.id === containerId || c.name === containerId);
   }
 
+  /**
+   * Returns the environment of the container's init process. Falls back to running `env`
+   * inside the container when the inspect output does not include it.
+   */
+  async getContainerEnvironment(containerId: string): Promise<Record<string, string>> {
+    try {
+      const { stdout } = await this.exec(['inspect', containerId]);
+      const records = this.normalizeJsonRecords(this.safeJsonParse<unknown>(stdout));
+      const record = records?.[0];
+      const environment = record
+        ? this.getNestedValue(record, ['configuration', 'initProcess', 'environment']) ??
+          this.getNestedValue(record, ['config', 'Env']) ??
+          this.getNestedValue(record, ['initProcess', 'environment'])
+        : undefined;
+      if (Array.isArray(environment)) {
+        return this.parseEnvironmentLines(environment.filter((entry): entry is string => typeof entry === 'string'));
+      }
+    } catch (error) {
+      log(`Container inspect did not return an environment for ${containerId}: ${error}`);
+    }
+
+    const { stdout } = await this.execInContainer(containerId, ['env'], { timeout: 15_000 });
+    return this.parseEnvironmentLines(stdout.split(/\r?\n/));
+  }
+
+  private parseEnvironmentLines(lines: string[]): Record<string, string> {
+    const environment: Record<string, string> = {};
+    for (const line of lines) {
+      const eqIndex = line.indexOf('=');
+      if (eqIndex > 0) {
+        environment[line.slice(0, eqIndex)] = line.slice(eqIndex + 1);
+      }
+    }
+    return environment;
+  }
+
   async getSystemStatus(): Promise<boolean | undefined> {
     try {
       const { stdout } = await this.exec(['system', 'status']);
@@ -271,7 +454,7 @@ export class ContainerCli {
 
         const images = records.map((item, index) => this.mapImageRecord(item, index));
         log(`Parsed ${images.length} images from JSON output`);
-        return images;
+        return await this.withImageVariants(images);
       } catch (error) {
         lastError = error;
         logError('listImages variant failed', error);
@@ -419,7 +602,7 @@ export class ContainerCli {
     return child;
   }
 
-  private buildExecArgs(containerId: string, command: string[], options: ContainerExecStreamOptions = {}): string[] {
+  buildExecArgs(containerId: string, command: string[], options: ContainerExecStreamOptions = {}): string[] {
     if (!containerId?.trim()) {
       throw new AppleContainerError('Container ID is required for exec', ErrorCode.CommandFailed);
     }
@@ -486,6 +669,109 @@ export class ContainerCli {
   }
 
   async createContainer(options: ContainerCreateOptions): Promise<void> {
+    const args = this.buildCreateArgs(options);
+    await this.ensureVolumes(options.volumes ?? []);
+    if (options.network?.trim()) {
+      await this.ensureNetwork(options.network.trim());
+    }
+    await this.exec(args);
+  }
+
+  async listVolumes(): Promise<VolumeSummary[]> {
+    const { stdout } = await this.exec(['volume', 'list', '--format', 'json']);
+    if (!stdout.trim()) {
+      return [];
+    }
+
+    const records = this.normalizeJsonRecords(this.safeJsonParse<unknown>(stdout), 'volumes');
+    if (!records) {
+      throw new AppleContainerError('Unexpected output from container volume list', ErrorCode.CommandFailed);
+    }
+
+    const volumes = records.map(record => this.mapVolumeRecord(record)).filter(volume => volume.name.length > 0);
+    log(`Parsed ${volumes.length} volumes from JSON output`);
+    return volumes;
+  }
+
+  async inspectVolume(name: string): Promise<Record<string, unknown>> {
+    const { stdout } = await this.exec(['volume', 'inspect', name]);
+    const records = this.normalizeJsonRecords(this.safeJsonParse<unknown>(stdout), 'volumes');
+    const record = records?.[0];
+    if (!record) {
+      throw new AppleContainerError(`Volume ${name} was not found`, ErrorCode.CommandFailed);
+    }
+    return record;
+  }
+
+  async removeVolumes(names: string[]): Promise<void> {
+    const unique = Array.from(new Set(names.map(name => name?.trim()).filter((name): name is string => Boolean(name))));
+    if (unique.length === 0) {
+      throw new AppleContainerError('No volume names provided for removal', ErrorCode.Unknown);
+    }
+    await this.exec(['volume', 'delete', ...unique]);
+  }
+
+  /**
+   * Prunes exactly the given unused volumes, one `volume delete` each: `volume prune` would decide
+   * the set itself, which may differ from what the user confirmed. Failures do not stop the rest.
+   */
+  async pruneVolumes(names: string[]): Promise<{ removed: string[]; failed: string[] }> {
+    const result: { removed: string[]; failed: string[] } = { removed: [], failed: [] };
+    for (const name of names) {
+      try {
+        await this.removeVolumes([name]);
+        result.removed.push(name);
+      } catch (error) {
+        logWarn(`Failed to remove volume ${name}: ${error}`);
+        result.failed.push(name);
+      }
+    }
+    return result;
+  }
+
+  async createVolume(name: string, labels: Record<string, string> = {}): Promise<void> {
+    const trimmed = name?.trim();
+    if (!trimmed) {
+      throw new AppleContainerError('Volume name is required', ErrorCode.CommandFailed);
+    }
+    const args = ['volume', 'create'];
+    for (const [key, value] of Object.entries(labels)) {
+      args.push('--label', `${key}=${value}`);
+    }
+    args.push(trimmed);
+    await this.exec(args);
+  }
+
+  // `container run` does not create missing named volumes, so create them up front.
+  private async ensureVolumes(volumes: VolumeMapping[]): Promise<void> {
+    const names = Array.from(new Set(
+      volumes.filter(volume => volume.type === 'volume' && volume.source?.trim()).map(volume => volume.source.trim())
+    ));
+    if (names.length === 0) {
+      return;
+    }
+
+    const existing = new Set((await this.listVolumes()).map(volume => volume.name));
+    for (const name of names.filter(candidate => !existing.has(candidate))) {
+      log(`Creating named volume ${name}`);
+      await this.createVolume(name);
+    }
+  }
+
+  // Likewise for networks; the built-in `default` network always exists.
+  private async ensureNetwork(name: string): Promise<void> {
+    if (name === 'default') {
+      return;
+    }
+    const networks = await this.listNetworks();
+    if (!networks.some(network => network.name === name)) {
+      log(`Creating network ${name}`);
+      await this.createNetwork(name);
+    }
+  }
+
+  /** Arguments `createContainer` passes to the CLI, exposed for previews. */
+  buildCreateArgs(options: ContainerCreateOptions): string[] {
     const image = options.image?.trim();
     if (!image) {
       throw new AppleContainerError('Container image is required', ErrorCode.CommandFailed);
@@ -512,6 +798,17 @@ export class ContainerCli {
       args.push('--memory', options.memory.trim());
     }
 
+    if (options.network?.trim()) {
+      args.push('--network', options.network.trim());
+    }
+
+    for (const [key, value] of Object.entries(options.labels ?? {})) {
+      if (!key?.trim()) {
+        continue;
+      }
+      args.push('--label', `${key.trim()}=${value ?? ''}`);
+    }
+
     const uniquePorts = Array.from(
       new Set((options.ports ?? []).map(port => port.trim()).filter(port => port.length > 0))
     );
@@ -519,23 +816,15 @@ export class ContainerCli {
       args.push('--publish', port);
     }
 
-    const uniqueVolumes = Array.from(
-      new Set(
-        (options.volumes ?? [])
-          .map(volume => {
-            if (!volume.source?.trim() || !volume.target?.trim()) {
-              return undefined;
-            }
-            const source = volume.source.trim();
-            const target = volume.target.trim();
-            const spec = volume.readOnly ? `${source}:${target}:ro` : `${source}:${target}`;
-            return spec;
-          })
-          .filter((value): value is string => Boolean(value && value.length > 0))
-      )
-    );
-    for (const spec of uniqueVolumes) {
-      args.push('--volume', spec);
+    const seenVolumes = new Set<string>();
+    for (const volume of options.volumes ?? []) {
+      const mountArgs = this.buildMountArgs(volume);
+      const key = mountArgs?.join(' ');
+      if (!mountArgs || !key || seenVolumes.has(key)) {
+        continue;
+      }
+      seenVolumes.add(key);
+      args.push(...mountArgs);
     }
 
     for (const additional of options.additionalArgs ?? []) {
@@ -551,10 +840,439 @@ export class ContainerCli {
       args.push(...options.command);
     }
 
+    return args;
+  }
+
+  private buildMountArgs(volume: VolumeMapping): string[] | undefined {
+    const target = volume.target?.trim();
+    if (!target) {
+      return undefined;
+    }
+    if (volume.type === 'tmpfs') {
+      return ['--tmpfs', target];
+    }
+
+    const source = volume.source?.trim();
+    if (!source) {
+      return undefined;
+    }
+    if (volume.type === 'volume') {
+      return ['--mount', `type=volume,source=${source},target=${target}${volume.readOnly ? ',readonly' : ''}`];
+    }
+    return ['--volume', volume.readOnly ? `${source}:${target}:ro` : `${source}:${target}`];
+  }
+
+  async createNetwork(name: string, options: NetworkCreateOptions = {}): Promise<void> {
+    const trimmed = name?.trim();
+    if (!trimmed) {
+      throw new AppleContainerError('Network name is required', ErrorCode.CommandFailed);
+    }
+    const args = ['network', 'create'];
+    if (options.subnet?.trim()) {
+      args.push('--subnet', options.subnet.trim());
+    }
+    for (const [key, value] of Object.entries(options.labels ?? {})) {
+      args.push('--label', `${key}=${value}`);
+    }
+    args.push(trimmed);
     await this.exec(args);
   }
 
+  async listNetworks(): Promise<NetworkSummary[]> {
+    const { stdout } = await this.exec(['network', 'list', '--format', 'json']);
+    if (!stdout.trim()) {
+      return [];
+    }
+
+    const records = this.normalizeJsonRecords(this.safeJsonParse<unknown>(stdout), 'networks');
+    if (!records) {
+      throw new AppleContainerError('Unexpected output from container network list', ErrorCode.CommandFailed);
+    }
+
+    const networks = records.map(record => this.mapNetworkRecord(record)).filter(network => network.name.length > 0);
+    log(`Parsed ${networks.length} networks from JSON output`);
+    return networks;
+  }
+
+  async inspectNetwork(name: string): Promise<Record<string, unknown>> {
+    const { stdout } = await this.exec(['network', 'inspect', name]);
+    const records = this.normalizeJsonRecords(this.safeJsonParse<unknown>(stdout), 'networks');
+    const record = records?.[0];
+    if (!record) {
+      throw new AppleContainerError(`Network ${name} was not found`, ErrorCode.CommandFailed);
+    }
+    return record;
+  }
+
+  async deleteNetworks(names: string[]): Promise<void> {
+    const unique = Array.from(new Set(names.map(name => name?.trim()).filter((name): name is string => Boolean(name))));
+    if (unique.length === 0) {
+      throw new AppleContainerError('No network names provided for removal', ErrorCode.Unknown);
+    }
+    await this.exec(['network', 'delete', ...unique]);
+  }
+
   async buildImage(options: ContainerBuildOptions = {}): Promise<void> {
+    const args = this.buildImageArgs(options);
+    logCommand(this.binary, args);
+
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(this.binary, args, {
+        cwd: options.cwd,
+        env: process.env
+      });
+
+      const forward = (line: string): void => {
+        if (line.length > 0) {
+          log(line);
+          options.onOutput?.(line);
+        }
+      };
+      const stdout = new LineSplitter(forward);
+      const stderr = new LineSplitter(forward);
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+      child.on('error', error => {
+        reject(toAppleContainerError(error));
+      });
+
+      child.on('close', code => {
+        stdout.flush();
+        stderr.flush();
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new AppleContainerError(`Image build failed with exit code ${code}`, ErrorCode.CommandFailed));
+        }
+      });
+    });
+  }
+
+  /** State of the BuildKit builder that `container build` starts on demand. */
+  async getBuilderStatus(): Promise<BuilderStatus> {
+    const { stdout, stderr } = await this.exec(['builder', 'status', '--format', 'json'])
+      .catch(() => this.exec(['builder', 'status']));
+    const output = (stdout || stderr).trim();
+
+    const record = this.normalizeJsonRecords(this.safeJsonParse<unknown>(output), 'builders')?.[0];
+    if (!record) {
+      return { running: /running/i.test(output) && !/not running/i.test(output), raw: output || undefined };
+    }
+
+    const configuration = this.asRecord(record['configuration']);
+    const resources = this.asRecord(configuration?.['resources']);
+    const state = this.firstString(record['status'], record['state'], record['State']);
+    return {
+      running: state?.toLowerCase() === 'running',
+      state,
+      image: this.firstString(this.getNestedValue(configuration, ['image', 'reference']), record['image']),
+      cpus: this.firstString(resources?.['cpus'], record['cpus']),
+      memory: this.formatMaybeBytes(resources?.['memoryInBytes'] ?? record['memory']),
+      raw: record
+    };
+  }
+
+  /**
+   * The CLI has no targeted cache prune; the build cache lives inside the builder, so the
+   * builder is stopped and deleted. The next build starts a fresh one.
+   */
+  async pruneBuilderCache(): Promise<void> {
+    try {
+      await this.exec(['builder', 'stop']);
+    } catch (error) {
+      log(`Builder stop failed, deleting anyway: ${error}`);
+    }
+    await this.execWithFallback([
+      ['builder', 'delete', '--force'],
+      ['builder', 'delete']
+    ]);
+  }
+
+  async pullImage(reference: string, options: ImagePullOptions = {}): Promise<void> {
+    const trimmed = reference?.trim();
+    if (!trimmed) {
+      throw new AppleContainerError('Image reference is required', ErrorCode.CommandFailed);
+    }
+
+    const args = ['image', 'pull'];
+    if (options.platform?.trim()) {
+      args.push('--platform', options.platform.trim());
+    }
+    if (options.arch?.trim()) {
+      args.push('--arch', options.arch.trim());
+    }
+    if (options.os?.trim()) {
+      args.push('--os', options.os.trim());
+    }
+    args.push(trimmed);
+    await this.execStreaming(args, `Pull of ${trimmed}`, options);
+    log(`Pulled image ${trimmed}`);
+  }
+
+  async pushImage(reference: string, options: ImageTransferOptions = {}): Promise<void> {
+    const trimmed = reference?.trim();
+    if (!trimmed) {
+      throw new AppleContainerError('Image reference is required', ErrorCode.CommandFailed);
+    }
+
+    const args = ['image', 'push'];
+    if (options.platform?.trim()) {
+      args.push('--platform', options.platform.trim());
+    }
+    args.push(trimmed);
+    await this.execStreaming(args, `Push of ${trimmed}`, options);
+    log(`Pushed image ${trimmed}`);
+  }
+
+  /** Writes the image to an OCI image layout tar archive at `outputPath`. */
+  async saveImage(reference: string, outputPath: string, options: ImageTransferOptions = {}): Promise<void> {
+    const trimmed = reference?.trim();
+    if (!trimmed || !outputPath?.trim()) {
+      throw new AppleContainerError('Image reference and output path are required', ErrorCode.CommandFailed);
+    }
+
+    const args = ['image', 'save', '--output', outputPath];
+    if (options.platform?.trim()) {
+      args.push('--platform', options.platform.trim());
+    }
+    args.push(trimmed);
+    await this.execStreaming(args, `Save of ${trimmed}`, options);
+    log(`Saved image ${trimmed} to ${outputPath}`);
+  }
+
+  /** Loads the images of an OCI image layout tar archive. */
+  async loadImage(inputPath: string, options: ImageTransferOptions = {}): Promise<void> {
+    if (!inputPath?.trim()) {
+      throw new AppleContainerError('Archive path is required', ErrorCode.CommandFailed);
+    }
+
+    await this.execStreaming(['image', 'load', '--input', inputPath], `Load of ${inputPath}`, options);
+    log(`Loaded images from ${inputPath}`);
+  }
+
+  async inspectImage(reference: string): Promise<ImageDetails> {
+    const { stdout } = await this.exec(['image', 'inspect', reference]);
+    const record = this.normalizeJsonRecords(this.safeJsonParse<unknown>(stdout), 'images')?.[0];
+    if (!record) {
+      throw new AppleContainerError(`Image ${reference} was not found`, ErrorCode.CommandFailed);
+    }
+
+    // The CLI reports one entry per platform under `variants`; single-platform output has the
+    // OCI image config at the top level instead.
+    const variantRecords = this.asArray(record['variants'])?.filter((entry): entry is Record<string, unknown> => this.isRecord(entry))
+      ?? [record];
+
+    return {
+      reference: this.firstString(record['name'], record['reference']) ?? reference,
+      digest: this.firstString(this.getNestedValue(record, ['index', 'digest']), record['digest'], record['Id']),
+      mediaType: this.firstString(this.getNestedValue(record, ['index', 'mediaType']), record['mediaType']),
+      size: this.formatMaybeBytes(this.getNestedValue(record, ['index', 'size']) ?? record['size'] ?? record['Size']),
+      variants: variantRecords.map(variant => this.mapImageVariant(variant)),
+      raw: record
+    };
+  }
+
+  /**
+   * `image list` only describes the index, so platform variants are read with `image inspect`.
+   * Variants are cached by digest and only images not seen before are inspected, in a single
+   * call; if that call fails each image is inspected on its own. Failures leave the variants
+   * unknown rather than failing the listing.
+   */
+  private async withImageVariants(images: ImageSummary[]): Promise<ImageSummary[]> {
+    const pending = images.filter(image => !image.variants && !this.variantCache.has(this.variantKey(image)));
+    if (pending.length > 0) {
+      const inspected = await this.inspectImageVariants(pending);
+      for (const image of pending) {
+        const variants = inspected.get(this.imageReference(image));
+        if (variants) {
+          this.variantCache.set(this.variantKey(image), variants);
+        }
+      }
+    }
+
+    // Forget images that are no longer listed.
+    const listed = new Set(images.map(image => this.variantKey(image)));
+    for (const key of this.variantCache.keys()) {
+      if (!listed.has(key)) {
+        this.variantCache.delete(key);
+      }
+    }
+
+    return images.map(image => (image.variants ? image : { ...image, variants: this.variantCache.get(this.variantKey(image)) }));
+  }
+
+  private async inspectImageVariants(images: ImageSummary[]): Promise<Map<string, ImagePlatformVariant[]>> {
+    const references = images.map(image => this.imageReference(image));
+    try {
+      const { stdout } = await this.exec(['image', 'inspect', ...references]);
+      return this.parseImageVariants(stdout, references);
+    } catch (error) {
+      if (references.length === 1) {
+        log(`Unable to read image platforms for ${references[0]}: ${error}`);
+        return new Map();
+      }
+      log(`Unable to read image platforms in one call, inspecting images individually: ${error}`);
+    }
+
+    const byReference = new Map<string, ImagePlatformVariant[]>();
+    for (const reference of references) {
+      try {
+        const { stdout } = await this.exec(['image', 'inspect', reference]);
+        this.parseImageVariants(stdout, [reference]).forEach((variants, name) => byReference.set(name, variants));
+      } catch (error) {
+        log(`Unable to read image platforms for ${reference}: ${error}`);
+      }
+    }
+    return byReference;
+  }
+
+  private parseImageVariants(stdout: string, references: string[]): Map<string, ImagePlatformVariant[]> {
+    const records = this.normalizeJsonRecords(this.safeJsonParse<unknown>(stdout), 'images') ?? [];
+    // Output follows argument order; fall back to the reported name if an entry is missing.
+    const byReference = new Map<string, ImagePlatformVariant[]>();
+    records.forEach((record, index) => {
+      const name = records.length === references.length ? references[index] : this.firstString(record['name'], record['reference']);
+      const variants = this.extractImagePlatforms(record)
+        ?? [this.mapImagePlatform(record)].filter(variant => variant.architecture);
+      if (name) {
+        byReference.set(name, variants);
+      }
+    });
+    return byReference;
+  }
+
+  private variantKey(image: ImageSummary): string {
+    return image.digest ?? image.id;
+  }
+
+  private imageReference(image: ImageSummary): string {
+    return image.repository && image.repository !== 'unknown' && image.tag
+      ? `${image.repository}:${image.tag}`
+      : image.digest ?? image.id;
+  }
+
+  /** Adds `target` as another reference to the image `source` points at. */
+  async tagImage(source: string, target: string): Promise<void> {
+    if (!source?.trim() || !target?.trim()) {
+      throw new AppleContainerError('Source and target image references are required', ErrorCode.CommandFailed);
+    }
+    await this.exec(['image', 'tag', source.trim(), target.trim()]);
+  }
+
+  // Runs a long registry operation, forwarding output line by line.
+  private async execStreaming(args: string[], label: string, options: ImageTransferOptions): Promise<void> {
+    logCommand(this.binary, args);
+
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(this.binary, args, { env: process.env });
+      // Progress redraws can run for the whole transfer, so only the tail is kept for errors.
+      const recent: string[] = [];
+      let authFailureSeen = false;
+
+      const onAbort = (): void => {
+        child.kill('SIGTERM');
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const emit = (text: string): void => {
+        const line = text.trim();
+        if (!line) {
+          return;
+        }
+        authFailureSeen = authFailureSeen || AUTH_FAILURE_PATTERN.test(line);
+        recent.push(line);
+        if (recent.length > STREAM_TAIL_LINES) {
+          recent.shift();
+        }
+        options.onOutput?.(line);
+      };
+
+      const stdout = new LineSplitter(emit);
+      const stderr = new LineSplitter(emit);
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+      child.on('error', error => {
+        options.signal?.removeEventListener('abort', onAbort);
+        reject(toAppleContainerError(error));
+      });
+
+      child.on('close', code => {
+        options.signal?.removeEventListener('abort', onAbort);
+        stdout.flush();
+        stderr.flush();
+        if (options.signal?.aborted) {
+          reject(new AppleContainerError(`${label} was cancelled`, ErrorCode.CommandFailed));
+        } else if (code === 0) {
+          resolve();
+        } else {
+          const detail = recent.join('\n');
+          reject(new AppleContainerError(
+            `${label} failed with exit code ${code}${detail ? `: ${detail}` : ''}`,
+            authFailureSeen ? ErrorCode.AuthenticationRequired : ErrorCode.CommandFailed
+          ));
+        }
+      });
+    });
+  }
+
+  /** Stores credentials for a registry in the CLI keychain; the password is passed on stdin. */
+  async registryLogin(server: string, username: string, password: string): Promise<void> {
+    const args = ['registry', 'login', '--username', username, '--password-stdin', server];
+    logCommand(this.binary, args);
+
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(this.binary, args, { env: process.env });
+      let stderr = '';
+      child.stderr.on('data', chunk => {
+        stderr += chunk.toString();
+      });
+      child.on('error', error => reject(toAppleContainerError(error)));
+      // A missing binary or an early exit closes stdin before the password is written (EPIPE).
+      child.stdin.on('error', error => reject(toAppleContainerError(error)));
+      child.on('close', code => {
+        if (code === 0) {
+          log(`Logged in to registry ${server} as ${username}`);
+          resolve();
+          return;
+        }
+        const message = stderr.trim() || `Login to ${server} failed with exit code ${code}`;
+        reject(new AppleContainerError(
+          message,
+          AUTH_FAILURE_PATTERN.test(message) ? ErrorCode.AuthenticationRequired : ErrorCode.CommandFailed
+        ));
+      });
+      child.stdin.end(`${password}\n`);
+    });
+  }
+
+  async registryLogout(server: string): Promise<void> {
+    await this.exec(['registry', 'logout', server]);
+  }
+
+  /** Registries the CLI currently holds credentials for, including logins made in a terminal. */
+  async listRegistryLogins(): Promise<RegistryLogin[]> {
+    const { stdout } = await this.exec(['registry', 'list', '--format', 'json']);
+    if (!stdout.trim()) {
+      return [];
+    }
+
+    const records = this.normalizeJsonRecords(this.safeJsonParse<unknown>(stdout), 'registries');
+    if (!records) {
+      throw new AppleContainerError('Unexpected output from container registry list', ErrorCode.CommandFailed);
+    }
+
+    return records
+      .map(record => ({
+        server: this.firstString(record['hostname'], record['server'], record['registry'], record['host']) ?? '',
+        username: this.firstString(record['username'], record['user'])
+      }))
+      .filter(login => login.server.length > 0);
+  }
+
+  /** Arguments `buildImage` passes to the CLI, exposed for previews. */
+  buildImageArgs(options: ContainerBuildOptions = {}): string[] {
     const args: string[] = ['build'];
 
     if (options.dockerfile?.trim()) {
@@ -630,46 +1348,7 @@ export class ContainerCli {
     const context = options.context?.trim() && options.context.trim().length > 0 ? options.context.trim() : '.';
     args.push(context);
 
-    logCommand(this.binary, args);
-
-    await new Promise<void>((resolve, reject) => {
-      const child = spawn(this.binary, args, {
-        cwd: options.cwd,
-        env: process.env
-      });
-
-      child.stdout.on('data', chunk => {
-        const lines = chunk
-          .toString()
-          .split(/\r?\n/)
-          .filter((line: string) => line.length > 0);
-        for (const line of lines) {
-          log(line);
-        }
-      });
-
-      child.stderr.on('data', chunk => {
-        const lines = chunk
-          .toString()
-          .split(/\r?\n/)
-          .filter((line: string) => line.length > 0);
-        for (const line of lines) {
-          log(line);
-        }
-      });
-
-      child.on('error', error => {
-        reject(toAppleContainerError(error));
-      });
-
-      child.on('close', code => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new AppleContainerError(`Image build failed with exit code ${code}`, ErrorCode.CommandFailed));
-        }
-      });
-    });
+    return args;
   }
 
   async ensureAvailable(): Promise<void> {
@@ -802,6 +1481,7 @@ export class ContainerCli {
     const networkDetails = this.extractNetworkDetails(record);
 
     const volumes = this.extractVolumeMounts(record);
+    const namedVolumes = this.extractNamedVolumes(record);
 
     const createdAt = this.firstString(
       record['createdAt'],
@@ -830,6 +1510,13 @@ export class ContainerCli {
     );
     const memory = this.formatMaybeBytes(memoryRaw);
 
+    const labels = this.extractLabels(
+      record['labels'] ??
+      record['Labels'] ??
+      this.getNestedValue(record, ['configuration', 'labels']) ??
+      this.getNestedValue(record, ['config', 'labels'])
+    );
+
     const os = this.firstString(
       record['os'],
       record['OS'],
@@ -859,12 +1546,44 @@ export class ContainerCli {
       os,
       arch,
       address: networkDetails.summary,
+      networks: networkDetails.names,
       volumes,
+      namedVolumes,
       cpus,
-      memory
+      memory,
+      labels
     };
   }
 
+  private extractLabels(value: unknown): Record<string, string> | undefined {
+    if (Array.isArray(value)) {
+      const labels: Record<string, string> = {};
+      for (const entry of value) {
+        if (typeof entry !== 'string') {
+          continue;
+        }
+        const eqIndex = entry.indexOf('=');
+        if (eqIndex > 0) {
+          labels[entry.slice(0, eqIndex)] = entry.slice(eqIndex + 1);
+        }
+      }
+      return Object.keys(labels).length > 0 ? labels : undefined;
+    }
+
+    if (!this.isRecord(value)) {
+      return undefined;
+    }
+
+    const labels: Record<string, string> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const normalized = this.firstString(entry);
+      if (normalized !== undefined) {
+        labels[key] = normalized;
+      }
+    }
+    return Object.keys(labels).length > 0 ? labels : undefined;
+  }
+
   private mapImageRecord(record: Record<string, unknown>, index: number): ImageSummary {
     const descriptor = this.asRecord(record['descriptor']);
     const annotations = this.asRecord(descriptor?.['annotations']);
@@ -895,6 +1614,7 @@ export class ContainerCli {
       descriptor?.['size']
     );
     const size = this.formatImageSize(sizeRaw);
+    const sizeBytes = this.parseImageSizeBytes(sizeRaw);
 
     const digest = this.firstString(
       record['digest'],
@@ -907,8 +1627,37 @@ export class ContainerCli {
       repository: parsedRef.repository ?? 'unknown',
       tag: parsedRef.tag ?? 'latest',
       size,
+      sizeBytes,
       createdAt,
-      digest
+      digest,
+      variants: this.extractImagePlatforms(record)
+    };
+  }
+
+  // Attestation manifests in an index are reported as unknown/unknown and are not runnable.
+  private extractImagePlatforms(record: Record<string, unknown>): ImagePlatformVariant[] | undefined {
+    const entries = this.asArray(record['variants']) ?? this.asArray(record['manifests']);
+    if (!entries) {
+      return undefined;
+    }
+    return entries
+      .filter((entry): entry is Record<string, unknown> => this.isRecord(entry))
+      .map(entry => this.mapImagePlatform(entry))
+      .filter(variant => variant.architecture && variant.architecture !== 'unknown');
+  }
+
+  private mapImagePlatform(record: Record<string, unknown>): ImagePlatformVariant {
+    const imageConfig = this.asRecord(record['config']) ?? record;
+    const architecture = this.firstString(this.getNestedValue(record, ['platform', 'architecture']), imageConfig['architecture'], imageConfig['Architecture']);
+    const os = this.firstString(this.getNestedValue(record, ['platform', 'os']), imageConfig['os'], imageConfig['Os']);
+    const variant = this.firstString(this.getNestedValue(record, ['platform', 'variant']), imageConfig['variant']);
+    return {
+      platform: [os, architecture, variant].filter(Boolean).join('/') || 'unknown',
+      architecture,
+      os,
+      variant,
+      digest: this.firstString(record['digest']),
+      size: this.formatMaybeBytes(record['size'])
     };
   }
 
@@ -936,19 +1685,43 @@ export class ContainerCli {
     return String(value);
   }
 
+  // Mirrors formatImageSize: bare numbers are megabytes, strings may carry a unit.
+  private parseImageSizeBytes(value: unknown): number | undefined {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? value * 1024 * 1024 : undefined;
+    }
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+
+    const match = /^([\d.]+)\s*([KMGTP]?)i?B?$/i.exec(value.trim());
+    if (!match) {
+      return undefined;
+    }
+    const amount = Number(match[1]);
+    if (Number.isNaN(amount)) {
+      return undefined;
+    }
+    const unit = match[2].toUpperCase();
+    if (!unit && !/b$/i.test(value.trim())) {
+      return amount * 1024 * 1024;
+    }
+    return amount * Math.pow(1024, ' KMGTP'.indexOf(unit || ' '));
+  }
+
   private formatMaybeBytes(value: unknown): string | undefined {
     if (value === undefined || value === null) {
       return undefined;
     }
 
     if (typeof value === 'number') {
-      return this.formatBytes(value);
+      return formatBytes(value);
     }
 
     if (typeof value === 'string') {
       const numeric = Number(value);
       if (!Number.isNaN(numeric)) {
-        return this.formatBytes(numeric);
+        return formatBytes(numeric);
       }
       return value;
     }
@@ -956,25 +1729,6 @@ export class ContainerCli {
     return String(value);
   }
 
-  private formatBytes(bytes: number): string {
-    const absolute = Math.abs(bytes);
-    if (absolute < 1024) {
-      return `${bytes} B`;
-    }
-
-    const units = ['KB', 'MB', 'GB', 'TB', 'PB'];
-    let size = absolute;
-    let unitIndex = -1;
-    while (size >= 1024 && unitIndex < units.length - 1) {
-      size /= 1024;
-      unitIndex += 1;
-    }
-
-    const formatted = size >= 10 ? size.toFixed(0) : size.toFixed(1);
-    const sign = bytes < 0 ? '-' : '';
-    return `${sign}${formatted} ${units[unitIndex]}`;
-  }
-
   private extractCreatedAt(record: Record<string, unknown>): string | undefined {
     const image = this.asRecord(record['image'])
       ?? this.asRecord(record['Image'])
@@ -1049,7 +1803,7 @@ export class ContainerCli {
     return undefined;
   }
 
-  private extractNetworkDetails(record: Record<string, unknown>): { summary?: string; primaryIp?: string } {
+  private extractNetworkDetails(record: Record<string, unknown>): { summary?: string; primaryIp?: string; names?: string[] } {
     const networks = this.asArray(record['networks'])
       ?? this.asArray(record['Networks'])
       ?? this.asArray(this.getNestedValue(record, ['configuration', 'networks']));
@@ -1058,6 +1812,7 @@ export class ContainerCli {
     }
 
     const addresses: string[] = [];
+    const names: string[] = [];
     let primaryIp: string | undefined;
 
     for (const entry of networks) {
@@ -1072,6 +1827,7 @@ export class ContainerCli {
       const parts: string[] = [];
       if (networkName) {
         parts.push(networkName);
+        names.push(networkName);
       }
       if (address) {
         parts.push(address);
@@ -1089,7 +1845,23 @@ export class ContainerCli {
 
     return {
       summary: addresses.length > 0 ? addresses.join(', ') : undefined,
-      primaryIp
+      primaryIp,
+      names: names.length > 0 ? names : undefined
+    };
+  }
+
+  private mapNetworkRecord(record: Record<string, unknown>): NetworkSummary {
+    return {
+      name: this.firstString(record['id'], record['name'], record['Name'], this.getNestedValue(record, ['config', 'id'])) ?? '',
+      state: this.firstString(record['state'], record['State']),
+      mode: this.firstString(this.getNestedValue(record, ['config', 'mode']), record['mode'], record['driver']),
+      subnet: this.firstString(
+        this.getNestedValue(record, ['status', 'address']),
+        this.getNestedValue(record, ['config', 'subnet']),
+        record['subnet']
+      ),
+      gateway: this.firstString(this.getNestedValue(record, ['status', 'gateway']), record['gateway']),
+      labels: this.extractLabels(this.getNestedValue(record, ['config', 'labels']) ?? record['labels'])
     };
   }
 
@@ -1108,7 +1880,8 @@ export class ContainerCli {
         continue;
       }
 
-      const source = this.firstString(mount['source'], mount['Source'], mount['src']);
+      // Named volumes report their backing image as the source; prefer the volume name.
+      const source = this.firstString(this.getNestedValue(mount['type'], ['volume', 'name']), mount['name'], mount['source'], mount['Source'], mount['src']);
       const destination = this.firstString(mount['destination'], mount['Destination'], mount['target'], mount['Target']);
       const type = this.extractMountType(mount['type']);
 
@@ -1132,23 +1905,75 @@ export class ContainerCli {
     return entries.length > 0 ? entries.join(', ') : undefined;
   }
 
+  private extractNamedVolumes(record: Record<string, unknown>): string[] | undefined {
+    const mounts = this.asArray(record['mounts'])
+      ?? this.asArray(record['Mounts'])
+      ?? this.asArray(this.getNestedValue(record, ['configuration', 'mounts']));
+    const names = (mounts ?? [])
+      .filter((mount): mount is Record<string, unknown> => this.isRecord(mount) && this.extractMountType(mount['type']) === 'volume')
+      .map(mount => this.firstString(this.getNestedValue(mount['type'], ['volume', 'name']), mount['name'], mount['source']))
+      .filter((name): name is string => Boolean(name));
+    return names.length > 0 ? names : undefined;
+  }
+
+  private mapVolumeRecord(record: Record<string, unknown>): VolumeSummary {
+    return {
+      name: this.firstString(record['name'], record['Name']) ?? '',
+      driver: this.firstString(record['driver'], record['Driver']),
+      format: this.firstString(record['format'], record['Format']),
+      source: this.firstString(record['source'], record['Source'], record['mountpoint'], record['Mountpoint']),
+      size: this.formatMaybeBytes(record['sizeInBytes'] ?? record['size'] ?? record['Size']),
+      createdAt: this.firstString(record['createdAt'], record['CreatedAt'], record['created']),
+      labels: this.extractLabels(record['labels'] ?? record['Labels'])
+    };
+  }
+
+  private mapImageVariant(record: Record<string, unknown>): ImageVariantDetails {
+    const imageConfig = this.asRecord(record['config']) ?? record;
+    const runtime = this.asRecord(imageConfig['config']) ?? this.asRecord(imageConfig['Config']) ?? {};
+    const history = (this.asArray(imageConfig['history']) ?? [])
+      .filter((entry): entry is Record<string, unknown> => this.isRecord(entry))
+      .map(entry => ({
+        created: this.firstString(entry['created']),
+        createdBy: this.firstString(entry['created_by']),
+        comment: this.firstString(entry['comment']),
+        emptyLayer: entry['empty_layer'] === true
+      }));
+
+    return {
+      ...this.mapImagePlatform(record),
+      created: this.firstString(imageConfig['created'], imageConfig['Created']),
+      entrypoint: this.asStringArray(runtime['Entrypoint']),
+      cmd: this.asStringArray(runtime['Cmd']),
+      workingDir: this.firstString(runtime['WorkingDir']),
+      user: this.firstString(runtime['User']),
+      env: this.parseEnvironmentLines(this.asStringArray(runtime['Env']) ?? []),
+      exposedPorts: Object.keys(this.asRecord(runtime['ExposedPorts']) ?? {}),
+      labels: this.extractLabels(runtime['Labels']) ?? {},
+      layers: (this.asArray(this.getNestedValue(imageConfig, ['rootfs', 'diff_ids'])) ?? []).length,
+      history
+    };
+  }
+
+  private asStringArray(value: unknown): string[] | undefined {
+    const entries = this.asArray(value)?.filter((entry): entry is string => typeof entry === 'string');
+    return entries && entries.length > 0 ? entries : undefined;
+  }
+
   private extractMountType(value: unknown): string | undefined {
     if (!value) {
       return undefined;
     }
 
+    let type: string | undefined;
     if (typeof value === 'string') {
-      return value;
-    }
-
-    if (this.isRecord(value)) {
-      const keys = Object.keys(value);
-      if (keys.length > 0) {
-        return keys[0];
-      }
+      type = value;
+    } else if (this.isRecord(value)) {
+      type = Object.keys(value)[0];
     }
 
-    return undefined;
+    // Host directories are shared with the VM over virtiofs; report them as binds.
+    return type === 'virtiofs' ? 'bind' : type;
   }
 
   private parseImageReference(reference?: string, tagHint?: string): { repository?: string; tag?: string; full?: string } {
@@ -1343,7 +2168,8 @@ export class ContainerCli {
     const stderr = typeof err?.stderr === 'string' ? err.stderr.trim() : undefined;
     const message = stderr && stderr.length > 0 ? stderr : err?.message ?? 'Unknown CLI error';
     logError(`CLI command failed: ${args.join(' ')}`, error);
-    return new AppleContainerError(message, ErrorCode.CommandFailed, error);
+    const code = AUTH_FAILURE_PATTERN.test(message) ? ErrorCode.AuthenticationRequired : ErrorCode.CommandFailed;
+    return new AppleContainerError(message, code, error);
   }
 
   private async execWithFallback(variants: string[][]): Promise<void> {
@@ -1395,3 +2221,22 @@ export class ContainerCli {
     await new Promise(resolve => setTimeout(resolve, ms));
   }
 }
+
+export function formatBytes(bytes: number): string {
+  const absolute = Math.abs(bytes);
+  if (absolute < 1024) {
+    return `${bytes} B`;
+  }
+
+  const units = ['KB', 'MB', 'GB', 'TB', 'PB'];
+  let size = absolute;
+  let unitIndex = -1;
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex += 1;
+  }
+
+  const formatted = size >= 10 ? size.toFixed(0) : size.toFixed(1);
+  const sign = bytes < 0 ? '-' : '';
+  return `${sign}${formatted} ${units[unitIndex]}`;
+}
@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+import { promises as fs } from 'node:fs';
+
+import { ContainerBuildOptions, ContainerCli } from '../cli/containerCli';
+import { AppleContainerError, ErrorCode } from './errors';
+import { logError, logInfo } from './logger';
+
+const HISTORY_KEY = 'appleContainer.builds';
+const HISTORY_LIMIT = 30;
+const REDACTED = '***';
+
+export type BuildStatus = 'running' | 'succeeded' | 'failed';
+
+// Options are stored so a build can be re-run; output callbacks are not persisted. Build arg
+// values may hold secrets, so only their names are kept and a re-run resolves them again.
+export type RecordedBuildOptions = Omit<ContainerBuildOptions, 'onOutput' | 'buildArgs'> & {
+  buildArgNames?: string[];
+};
+
+// Returns the current build args for the workspace a recorded build ran in.
+export type BuildArgsResolver = (workspacePath: string) => Promise<Record<string, string> | undefined>;
+
+export interface BuildRecord {
+  id: string;
+  // Devcontainer or workspace the build belongs to.
+  source: string;
+  tags: string[];
+  context?: string;
+  dockerfile?: string;
+  startedAt: string;
+  durationMs?: number;
+  status: BuildStatus;
+  error?: string;
+  logPath: string;
+  options: RecordedBuildOptions;
+}
+
+/**
+ * Runs image builds and records each one: its tags, context, Dockerfile, duration, outcome and
+ * a transcript of the build output. Finished builds are kept in global state, newest first;
+ * builds in progress are only held in memory.
+ */
+export class BuildHistory implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly running = new Map<string, BuildRecord>();
+  private readonly logDirectory: string;
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private readonly cli: ContainerCli,
+    private readonly context: vscode.ExtensionContext
+  ) {
+    this.logDirectory = path.join(context.globalStorageUri.fsPath, 'build-logs');
+  }
+
+  list(): BuildRecord[] {
+    return [...this.running.values(), ...this.context.globalState.get<BuildRecord[]>(HISTORY_KEY, [])];
+  }
+
+  get(id: string): BuildRecord | undefined {
+    return this.list().find(record => record.id === id);
+  }
+
+  /** Builds the image and records the run; build failures are rethrown after recording. */
+  async run(source: string, options: ContainerBuildOptions): Promise<void> {
+    const { onOutput, buildArgs, ...rest } = options;
+    const buildArgNames = Object.keys(buildArgs ?? {});
+    const recorded: RecordedBuildOptions = buildArgNames.length > 0 ? { ...rest, buildArgNames } : rest;
+    const started = new Date();
+    const id = `${started.getTime()}-${Math.random().toString(36).slice(2, 8)}`;
+    const record: BuildRecord = {
+      id,
+      source,
+      tags: recorded.tags ?? [],
+      context: recorded.context,
+      dockerfile: recorded.dockerfile,
+      startedAt: started.toISOString(),
+      status: 'running',
+      logPath: path.join(this.logDirectory, `${id}.log`),
+      options: recorded
+    };
+    const transcript: string[] = [
+      `# ${source}: container ${this.cli.buildImageArgs({ ...rest, buildArgs: redact(buildArgNames) }).join(' ')}`,
+      `# working directory ${recorded.cwd ?? process.cwd()}`,
+      `# started ${record.startedAt}`,
+      ''
+    ];
+
+    this.running.set(id, record);
+    this.changeEmitter.fire();
+
+    let failure: unknown;
+    try {
+      await this.cli.buildImage({
+        ...rest,
+        buildArgs,
+        onOutput: line => {
+          transcript.push(line);
+          onOutput?.(line);
+        }
+      });
+    } catch (error) {
+      failure = error;
+    }
+
+    record.durationMs = Date.now() - started.getTime();
+    record.status = failure ? 'failed' : 'succeeded';
+    record.error = failure ? (failure as Error)?.message ?? String(failure) : undefined;
+    transcript.push('', `# ${record.status} after ${(record.durationMs / 1000).toFixed(1)}s${record.error ? `: ${record.error}` : ''}`, '');
+
+    await this.saveTranscript(record, transcript.join('\n'));
+    this.running.delete(id);
+    await this.remember(record);
+
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  /** Runs a recorded build again with the same options; build args come from `resolveBuildArgs`. */
+  async rerun(id: string, resolveBuildArgs?: BuildArgsResolver): Promise<void> {
+    const record = this.get(id);
+    if (!record) {
+      return;
+    }
+
+    const { buildArgNames, ...options } = record.options;
+    let buildArgs: Record<string, string> | undefined;
+    if (buildArgNames?.length) {
+      buildArgs = record.options.cwd ? await resolveBuildArgs?.(record.options.cwd) : undefined;
+      if (!buildArgs) {
+        throw new AppleContainerError(
+          `The build args of ${record.source} (${buildArgNames.join(', ')}) are not recorded and could not be resolved from its configuration`,
+          ErrorCode.CommandFailed
+        );
+      }
+    }
+
+    logInfo(`Re-running build of ${record.tags.join(', ') || record.source}`);
+    await this.run(record.source, { ...options, buildArgs });
+  }
+
+  async openLog(id: string): Promise<void> {
+    const record = this.get(id);
+    if (!record) {
+      return;
+    }
+    if (record.status === 'running') {
+      void vscode.window.showInformationMessage('The build is still running; its log is written when it finishes. Live output is in the Apple Container output channel.');
+      return;
+    }
+
+    try {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(record.logPath));
+      await vscode.window.showTextDocument(document, { preview: true });
+    } catch (error) {
+      logError(`Unable to open build log ${record.logPath}`, error);
+      void vscode.window.showWarningMessage('The log for this build is no longer available.');
+    }
+  }
+
+  /** Forgets finished builds and deletes their logs. */
+  async clear(): Promise<void> {
+    const finished = this.context.globalState.get<BuildRecord[]>(HISTORY_KEY, []);
+    await this.context.globalState.update(HISTORY_KEY, []);
+    await this.deleteLogs(finished);
+    this.changeEmitter.fire();
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  private async remember(record: BuildRecord): Promise<void> {
+    const history = [record, ...this.context.globalState.get<BuildRecord[]>(HISTORY_KEY, [])];
+    await this.context.globalState.update(HISTORY_KEY, history.slice(0, HISTORY_LIMIT));
+    await this.deleteLogs(history.slice(HISTORY_LIMIT));
+    this.changeEmitter.fire();
+  }
+
+  private async saveTranscript(record: BuildRecord, content: string): Promise<void> {
+    try {
+      await fs.mkdir(this.logDirectory, { recursive: true });
+      await fs.writeFile(record.logPath, content, 'utf8');
+    } catch (error) {
+      logError(`Failed to save build log for ${record.tags.join(', ') || record.source}`, error);
+    }
+  }
+
+  private async deleteLogs(records: BuildRecord[]): Promise<void> {
+    await Promise.all(records.map(record => fs.rm(record.logPath, { force: true }).catch(() => undefined)));
+  }
+}
+
+function redact(names: string[]): Record<string, string> {
+  return Object.fromEntries(names.map(name => [name, REDACTED]));
+}
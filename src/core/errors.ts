@@ -3,6 +3,7 @@ export enum ErrorCode {
   CommandFailed = 'COMMAND_FAILED',
   PermissionDenied = 'PERMISSION_DENIED',
   NetworkError = 'NETWORK_ERROR',
+  AuthenticationRequired = 'AUTHENTICATION_REQUIRED',
   Unknown = 'UNKNOWN'
 }
 
@@ -0,0 +1,253 @@
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+import { promises as fs } from 'node:fs';
+
+import { ContainerCli, ImagePullOptions, ImageSummary, ImageTransferOptions } from '../cli/containerCli';
+import { log, logInfo, logWarn } from './logger';
+import { OciArchiveInfo, validateOciArchive } from './ociArchive';
+import { DEFAULT_REGISTRY, RegistryManager } from './registryManager';
+
+const HISTORY_KEY = 'appleContainer.image.pullHistory';
+const HISTORY_LIMIT = 15;
+
+interface ReferencePickItem extends vscode.QuickPickItem {
+  reference: string;
+}
+
+type TransferSettings<T extends ImageTransferOptions> = Omit<T, 'onOutput' | 'signal'>;
+
+/**
+ * Pulls and pushes images with a cancellable progress notification, logging in to the
+ * registry when needed, and remembers recently pulled references so they can be offered again.
+ * Images can also be moved without a registry by saving them to and loading them from tar archives.
+ */
+export class ImageTransferManager {
+  constructor(
+    private readonly cli: ContainerCli,
+    private readonly context: vscode.ExtensionContext,
+    private readonly registries: RegistryManager
+  ) { }
+
+  getHistory(): string[] {
+    return this.context.globalState.get<string[]>(HISTORY_KEY, []);
+  }
+
+  /** Asks for an image reference, suggesting recent pulls and local images. */
+  async promptReference(localImages: ImageSummary[] = []): Promise<string | undefined> {
+    const history = this.getHistory();
+    const local = localImages
+      .map(image => [image.repository, image.tag].filter(Boolean).join(':'))
+      .filter(reference => reference.length > 0 && !history.includes(reference));
+
+    const quickPick = vscode.window.createQuickPick<ReferencePickItem>();
+    quickPick.title = 'Pull Image';
+    quickPick.placeholder = 'Image reference, e.g. docker.io/library/node:20';
+    quickPick.ignoreFocusOut = true;
+    const suggestions: ReferencePickItem[] = [
+      ...history.map(reference => ({ reference, label: reference, description: 'recently pulled' })),
+      ...local.map(reference => ({ reference, label: reference, description: 'update local image' }))
+    ];
+    quickPick.items = suggestions;
+
+    // Offer whatever is typed as the first entry so new references can be entered freely.
+    quickPick.onDidChangeValue(value => {
+      const typed = value.trim();
+      quickPick.items = typed && !suggestions.some(item => item.reference === typed)
+        ? [{ reference: typed, label: typed, description: 'pull', alwaysShow: true }, ...suggestions]
+        : suggestions;
+    });
+
+    return new Promise<string | undefined>(resolve => {
+      let settled = false;
+      quickPick.onDidAccept(() => {
+        const selection = quickPick.selectedItems[0]?.reference ?? quickPick.value.trim();
+        settled = true;
+        quickPick.hide();
+        resolve(selection || undefined);
+      });
+      quickPick.onDidHide(() => {
+        quickPick.dispose();
+        if (!settled) {
+          resolve(undefined);
+        }
+      });
+      quickPick.show();
+    });
+  }
+
+  async pull(reference: string, options: TransferSettings<ImagePullOptions> = {}): Promise<void> {
+    await this.registries.withAuthentication(reference, () => this.withProgress(
+      `Pulling ${reference}`,
+      transfer => this.cli.pullImage(reference, { ...options, ...transfer })
+    ));
+    logInfo(`Image ${reference} pulled`);
+    await this.remember(reference);
+  }
+
+  async push(reference: string, options: TransferSettings<ImageTransferOptions> = {}): Promise<void> {
+    await this.registries.withAuthentication(reference, () => this.withProgress(
+      `Pushing ${reference}`,
+      transfer => this.cli.pushImage(reference, { ...options, ...transfer })
+    ));
+    logInfo(`Image ${reference} pushed`);
+  }
+
+  /**
+   * Saves an image to a tar archive. The archive is written next to `outputPath` and only
+   * moved over it once complete, so a failed save leaves an existing file untouched.
+   */
+  async save(reference: string, outputPath: string): Promise<void> {
+    const partialPath = path.join(
+      path.dirname(outputPath),
+      `.${path.basename(outputPath)}.${Math.random().toString(36).slice(2, 8)}.partial`
+    );
+    try {
+      await this.withProgress(
+        `Saving ${reference} to ${path.basename(outputPath)}`,
+        transfer => this.cli.saveImage(reference, partialPath, transfer)
+      );
+      await fs.rename(partialPath, outputPath);
+    } catch (error) {
+      await fs.rm(partialPath, { force: true }).catch(cleanupError => logWarn(`Could not remove ${partialPath}: ${cleanupError}`));
+      throw error;
+    }
+    logInfo(`Image ${reference} saved to ${outputPath}`);
+  }
+
+  /** Loads the images of a tar archive after checking that it holds an OCI image layout. */
+  async load(inputPath: string): Promise<OciArchiveInfo> {
+    const archive = await validateOciArchive(inputPath);
+    log(`${path.basename(inputPath)} holds ${archive.manifests} manifest(s): ${archive.references.join(', ') || 'unnamed'}`);
+    await this.withProgress(
+      `Loading ${path.basename(inputPath)}`,
+      transfer => this.cli.loadImage(inputPath, transfer)
+    );
+    logInfo(`Images loaded from ${inputPath}`);
+    return archive;
+  }
+
+  /**
+   * Asks where to push `source`: a registry (known logins first), then the full target
+   * reference, prefilled with the source repository and tag under that registry.
+   */
+  async promptPushTarget(source: string): Promise<string | undefined> {
+    const known = this.registries.list().filter(entry => entry.loggedIn).map(entry => entry.server);
+    const servers = Array.from(new Set([...known, DEFAULT_REGISTRY]));
+    const items: vscode.QuickPickItem[] = [
+      ...servers.map(server => ({
+        label: server,
+        description: known.includes(server) ? 'logged in' : undefined
+      })),
+      { label: 'Other registry…', alwaysShow: true }
+    ];
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: `Push ${source} to…`, ignoreFocusOut: true });
+    if (!picked) {
+      return undefined;
+    }
+
+    const server = picked.label === 'Other registry…'
+      ? (await vscode.window.showInputBox({ prompt: 'Registry server', placeHolder: 'registry.example.com:5000', ignoreFocusOut: true }))?.trim()
+      : picked.label;
+    if (!server) {
+      return undefined;
+    }
+
+    const sourceRegistry = RegistryManager.registryOf(source);
+    const repositoryPath = source.startsWith(`${sourceRegistry}/`) ? source.slice(sourceRegistry.length + 1) : source;
+    const target = await vscode.window.showInputBox({
+      prompt: 'Target reference',
+      value: `${server}/${repositoryPath}`,
+      valueSelection: [server.length + 1, server.length + 1 + repositoryPath.length],
+      ignoreFocusOut: true,
+      validateInput: value => validateReference(value)
+    });
+    return target?.trim() || undefined;
+  }
+
+  /** Pulls the image unless it is already available locally; returns true when it pulled. */
+  async ensureImage(reference: string, options: TransferSettings<ImagePullOptions> = {}): Promise<boolean> {
+    const images = await this.cli.listImages();
+    if (this.isAvailable(reference, images)) {
+      return false;
+    }
+
+    logInfo(`Image ${reference} is not available locally; pulling it`);
+    await this.pull(reference, options);
+    return true;
+  }
+
+  isAvailable(reference: string, images: ImageSummary[]): boolean {
+    const wanted = this.normalizeReference(reference);
+    return images.some(image => {
+      if (image.digest && reference.endsWith(image.digest)) {
+        return true;
+      }
+      const local = [image.repository, image.tag].filter(Boolean).join(':');
+      return local.length > 0 && this.normalizeReference(local) === wanted;
+    });
+  }
+
+  private async withProgress(title: string, run: (transfer: ImageTransferOptions) => Promise<void>): Promise<void> {
+    await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true
+    }, async (progress, token) => {
+      const controller = new AbortController();
+      const subscription = token.onCancellationRequested(() => controller.abort());
+      let reported = 0;
+      try {
+        await run({
+          signal: controller.signal,
+          onOutput: line => {
+            log(line);
+            const percent = this.parsePercent(line);
+            let increment: number | undefined;
+            if (percent !== undefined && percent > reported) {
+              increment = percent - reported;
+              reported = percent;
+            }
+            progress.report({ message: line, increment });
+          }
+        });
+      } finally {
+        subscription.dispose();
+      }
+    });
+  }
+
+  private async remember(reference: string): Promise<void> {
+    const history = [reference, ...this.getHistory().filter(entry => entry !== reference)].slice(0, HISTORY_LIMIT);
+    await this.context.globalState.update(HISTORY_KEY, history);
+  }
+
+  // `node` and `docker.io/library/node:latest` name the same image.
+  private normalizeReference(reference: string): string {
+    let normalized = reference.trim().toLowerCase();
+    const lastSlash = normalized.lastIndexOf('/');
+    if (!normalized.includes('@') && normalized.lastIndexOf(':') <= lastSlash) {
+      normalized = `${normalized}:latest`;
+    }
+    return normalized.replace(/^(docker\.io|index\.docker\.io)\//, '').replace(/^library\//, '');
+  }
+
+  private parsePercent(line: string): number | undefined {
+    const match = /(\d{1,3}(?:\.\d+)?)%/.exec(line);
+    if (!match) {
+      return undefined;
+    }
+    const value = Number.parseFloat(match[1]);
+    return value >= 0 && value <= 100 ? value : undefined;
+  }
+}
+
+/** Input-box validation for an image reference such as `ghcr.io/team/app:1.0`. */
+export function validateReference(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return 'Image reference is required';
+  }
+  return /^[a-z0-9]+(?:[._-][a-z0-9]+)*(?::[0-9]+)?(?:\/[a-z0-9]+(?:[._-]+[a-z0-9]+)*)*(?::[\w][\w.-]{0,127})?$/.test(trimmed)
+    ? undefined
+    : 'Use a lowercase reference such as registry.example.com/team/app:1.0';
+}
@@ -0,0 +1,201 @@
+import { createReadStream } from 'node:fs';
+import * as path from 'node:path';
+
+import { AppleContainerError, ErrorCode } from './errors';
+
+const BLOCK_SIZE = 512;
+// index.json and oci-layout are small; anything larger is not worth buffering.
+const MAX_METADATA_SIZE = 4 * 1024 * 1024;
+const METADATA_FILES = new Set(['oci-layout', 'index.json']);
+
+export interface OciArchiveInfo {
+  // Image names recorded in index.json annotations.
+  references: string[];
+  manifests: number;
+}
+
+interface CapturedEntry {
+  name: string;
+  type: string;
+  remaining: number;
+  chunks: Buffer[];
+}
+
+/**
+ * Checks that a tar archive holds an OCI image layout (`oci-layout`, `index.json` with at
+ * least one manifest, and a `blobs/` directory) before it is handed to `container image load`.
+ * Only tar headers and the two metadata files are read; reading stops once all are found.
+ */
+export async function validateOciArchive(archivePath: string): Promise<OciArchiveInfo> {
+  const archiveName = path.basename(archivePath);
+  const files = new Map<string, Buffer>();
+  let hasBlobs = false;
+  let headers = 0;
+
+  let pending: Buffer = Buffer.alloc(0);
+  let skip = 0;
+  let capture: CapturedEntry | undefined;
+  let longName: string | undefined;
+  let finished = false;
+
+  const stream = createReadStream(archivePath);
+  try {
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+      let offset = 0;
+
+      while (offset < pending.length && !finished) {
+        if (skip > 0) {
+          const take = Math.min(skip, pending.length - offset);
+          if (capture && capture.remaining > 0) {
+            const part = pending.subarray(offset, offset + Math.min(take, capture.remaining));
+            capture.chunks.push(part);
+            capture.remaining -= part.length;
+            if (capture.remaining === 0) {
+              const data = Buffer.concat(capture.chunks);
+              if (capture.type === 'L') {
+                longName = readString(data, 0, data.length);
+              } else if (capture.type === 'x') {
+                longName = readPaxPath(data) ?? longName;
+              } else {
+                files.set(capture.name, data);
+              }
+              capture = undefined;
+            }
+          }
+          offset += take;
+          skip -= take;
+          continue;
+        }
+
+        if (pending.length - offset < BLOCK_SIZE) {
+          break;
+        }
+        const header = pending.subarray(offset, offset + BLOCK_SIZE);
+        offset += BLOCK_SIZE;
+
+        if (header.every(byte => byte === 0)) {
+          finished = true;
+          break;
+        }
+        if (!hasValidChecksum(header)) {
+          throw new AppleContainerError(`${archiveName} is not a tar archive`, ErrorCode.CommandFailed);
+        }
+        headers += 1;
+
+        const type = String.fromCharCode(header[156] || 0x30);
+        const size = readOctal(header, 124, 12);
+        const prefix = readString(header, 345, 155);
+        const headerName = prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100);
+        let name = headerName;
+        if (type !== 'L' && type !== 'x' && type !== 'g') {
+          name = normalizeEntryName(longName ?? headerName);
+          longName = undefined;
+          hasBlobs = hasBlobs || name === 'blobs' || name.startsWith('blobs/');
+        }
+
+        const wanted = type === 'L' || type === 'x' || (type === '0' && METADATA_FILES.has(name));
+        if (wanted && size > 0 && size <= MAX_METADATA_SIZE) {
+          capture = { name, type, remaining: size, chunks: [] };
+        }
+        skip = Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+      }
+
+      pending = pending.subarray(offset);
+      if (finished || (hasBlobs && METADATA_FILES.size === files.size)) {
+        break;
+      }
+    }
+  } catch (error) {
+    if (error instanceof AppleContainerError) {
+      throw error;
+    }
+    throw new AppleContainerError(`Unable to read ${archiveName}: ${(error as Error)?.message ?? error}`, ErrorCode.CommandFailed, error);
+  } finally {
+    stream.destroy();
+  }
+
+  if (headers === 0) {
+    throw new AppleContainerError(`${archiveName} is empty or not a tar archive`, ErrorCode.CommandFailed);
+  }
+
+  const layout = parseJson(files.get('oci-layout'));
+  if (!layout || typeof layout['imageLayoutVersion'] !== 'string') {
+    throw new AppleContainerError(`${archiveName} is not an OCI image layout: oci-layout is missing or invalid`, ErrorCode.CommandFailed);
+  }
+
+  const index = parseJson(files.get('index.json'));
+  const manifests = Array.isArray(index?.['manifests']) ? index['manifests'] as unknown[] : [];
+  if (manifests.length === 0) {
+    throw new AppleContainerError(`${archiveName} is not an OCI image layout: index.json lists no manifests`, ErrorCode.CommandFailed);
+  }
+  if (!hasBlobs) {
+    throw new AppleContainerError(`${archiveName} is not an OCI image layout: the blobs directory is missing`, ErrorCode.CommandFailed);
+  }
+
+  const references = manifests
+    .map(manifest => {
+      const annotations = (manifest as { annotations?: Record<string, unknown> })?.annotations;
+      const name = annotations?.['io.containerd.image.name'] ?? annotations?.['org.opencontainers.image.ref.name'];
+      return typeof name === 'string' ? name : undefined;
+    })
+    .filter((name): name is string => Boolean(name));
+
+  return { references: Array.from(new Set(references)), manifests: manifests.length };
+}
+
+function hasValidChecksum(header: Buffer): boolean {
+  const expected = readOctal(header, 148, 8);
+  let sum = 0;
+  for (let index = 0; index < BLOCK_SIZE; index += 1) {
+    // The checksum field itself counts as spaces.
+    sum += index >= 148 && index < 156 ? 0x20 : header[index];
+  }
+  return sum === expected;
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const field = buffer.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+function readOctal(buffer: Buffer, start: number, length: number): number {
+  // GNU tar stores values that do not fit in octal (entries over 8 GiB) as base-256, flagged by the high bit.
+  if (buffer[start] & 0x80) {
+    let value = buffer[start] & 0x7f;
+    for (let index = start + 1; index < start + length; index += 1) {
+      value = value * 256 + buffer[index];
+    }
+    return value;
+  }
+  const value = readString(buffer, start, length).trim();
+  return value ? Number.parseInt(value, 8) || 0 : 0;
+}
+
+// PAX extended headers are "<length> <key>=<value>\n" records.
+function readPaxPath(data: Buffer): string | undefined {
+  for (const record of data.toString('utf8').split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+function normalizeEntryName(name: string): string {
+  return name.replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+}
+
+function parseJson(data?: Buffer): Record<string, unknown> | undefined {
+  if (!data) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(data.toString('utf8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : undefined;
+  } catch {
+    return undefined;
+  }
+}
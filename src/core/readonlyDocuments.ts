@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+
+// Serves read-only generated documents (resolved configuration, inspect output) under its own scheme.
+export class ReadonlyDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly documents = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private readonly registration: vscode.Disposable;
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly scheme: string) {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(scheme, this);
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.documents.get(uri.toString()) ?? '';
+  }
+
+  async show(name: string, content: string, languageId: string): Promise<void> {
+    const uri = vscode.Uri.from({ scheme: this.scheme, path: `/${name}` });
+    this.documents.set(uri.toString(), content);
+    this.changeEmitter.fire(uri);
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    const typed = await vscode.languages.setTextDocumentLanguage(document, languageId);
+    await vscode.window.showTextDocument(typed, { preview: true });
+  }
+
+  dispose(): void {
+    this.registration.dispose();
+    this.documents.clear();
+    this.changeEmitter.dispose();
+  }
+}
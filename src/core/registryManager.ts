@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+
+import { ContainerCli, RegistryLogin } from '../cli/containerCli';
+import { AppleContainerError, ErrorCode } from './errors';
+import { events, SystemStatusPayload } from './events';
+import { log, logInfo, logWarn } from './logger';
+
+const REGISTRIES_KEY = 'appleContainer.registries';
+const SECRET_PREFIX = 'appleContainer.registry.';
+export const DEFAULT_REGISTRY = 'docker.io';
+
+// Logins made from this extension; kept in global state.
+interface StoredRegistry {
+  server: string;
+  username: string;
+  lastLogin?: string;
+}
+
+export interface RegistryEntry {
+  server: string;
+  username?: string;
+  // Whether the CLI holds credentials for the registry; undefined until `container registry list` answered.
+  loggedIn?: boolean;
+  lastLogin?: string;
+}
+
+/**
+ * Keeps track of registry logins. Login status comes from `container registry list`, so logins
+ * and logouts made in a terminal show up as well. Usernames of logins made from the extension
+ * live in global state; passwords and tokens are kept in SecretStorage so an expired CLI login
+ * can be renewed without prompting again.
+ */
+export class RegistryManager implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly statusListener: (payload: SystemStatusPayload) => void;
+  private cliLogins: RegistryLogin[] | undefined;
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private readonly cli: ContainerCli,
+    private readonly context: vscode.ExtensionContext
+  ) {
+    this.statusListener = payload => {
+      if (payload.running) {
+        void this.refresh();
+      }
+    };
+    events.on('system:status', this.statusListener);
+  }
+
+  list(): RegistryEntry[] {
+    const stored = this.stored();
+    const entries: RegistryEntry[] = stored.map(entry => {
+      const login = this.cliLogins?.find(candidate => candidate.server === entry.server);
+      return { ...entry, username: login?.username ?? entry.username, loggedIn: this.cliLogins ? Boolean(login) : undefined };
+    });
+    for (const login of this.cliLogins ?? []) {
+      if (!stored.some(entry => entry.server === login.server)) {
+        entries.push({ server: login.server, username: login.username, loggedIn: true });
+      }
+    }
+    return entries.sort((a, b) => a.server.localeCompare(b.server));
+  }
+
+  /** Re-reads the logins the CLI holds. */
+  async refresh(): Promise<void> {
+    try {
+      this.cliLogins = await this.cli.listRegistryLogins();
+      log(`Registry logins refreshed (${this.cliLogins.length})`);
+    } catch (error) {
+      logWarn(`Unable to list registry logins: ${error}`);
+      this.cliLogins = undefined;
+    }
+    this.changeEmitter.fire();
+  }
+
+  /** Prompts for any missing server, username or password and logs in. */
+  async login(server?: string): Promise<RegistryEntry | undefined> {
+    const target = server ?? await vscode.window.showInputBox({
+      prompt: 'Registry server',
+      value: DEFAULT_REGISTRY,
+      ignoreFocusOut: true,
+      validateInput: value => (value.trim() && !/\s|\//.test(value.trim()) ? undefined : 'Enter a host name such as ghcr.io or registry.example.com:5000')
+    });
+    if (!target?.trim()) {
+      return undefined;
+    }
+
+    const existing = this.find(target.trim());
+    const username = await vscode.window.showInputBox({
+      prompt: `Username for ${target.trim()}`,
+      value: existing?.username,
+      ignoreFocusOut: true,
+      validateInput: value => (value.trim() ? undefined : 'Username is required')
+    });
+    if (!username?.trim()) {
+      return undefined;
+    }
+
+    const password = await vscode.window.showInputBox({
+      prompt: `Password or access token for ${username.trim()}@${target.trim()}`,
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: value => (value ? undefined : 'Password is required')
+    });
+    if (!password) {
+      return undefined;
+    }
+
+    return this.loginWith(target.trim(), username.trim(), password);
+  }
+
+  async logout(server: string): Promise<void> {
+    try {
+      await this.cli.registryLogout(server);
+    } catch (error) {
+      logWarn(`Registry logout for ${server} failed; forgetting stored credentials anyway: ${error}`);
+    }
+    await this.context.secrets.delete(this.secretKey(server));
+    await this.save(this.stored().filter(entry => entry.server !== server));
+    logInfo(`Logged out of registry ${server}`);
+    await this.refresh();
+  }
+
+  /**
+   * Runs an action that talks to the registry of `reference`. When it fails with an
+   * authentication error the stored credentials are used to log in again, or the user is
+   * asked to log in, and the action is retried once.
+   */
+  async withAuthentication<T>(reference: string, action: () => Promise<T>): Promise<T> {
+    try {
+      return await action();
+    } catch (error) {
+      if (!(error instanceof AppleContainerError) || error.code !== ErrorCode.AuthenticationRequired) {
+        throw error;
+      }
+
+      const server = RegistryManager.registryOf(reference);
+      const renewed = await this.renewLogin(server) ?? await this.promptLogin(server, error);
+      if (!renewed) {
+        throw error;
+      }
+      return action();
+    }
+  }
+
+  /** Registry host of an image reference; references without a host come from Docker Hub. */
+  static registryOf(reference: string): string {
+    const first = reference.trim().split('/')[0];
+    const hasHost = reference.includes('/') && (first.includes('.') || first.includes(':') || first === 'localhost');
+    return hasHost ? first : DEFAULT_REGISTRY;
+  }
+
+  dispose(): void {
+    events.off('system:status', this.statusListener);
+    this.changeEmitter.dispose();
+  }
+
+  private async loginWith(server: string, username: string, password: string): Promise<RegistryEntry> {
+    await this.cli.registryLogin(server, username, password);
+    await this.context.secrets.store(this.secretKey(server), password);
+    const entry: StoredRegistry = { server, username, lastLogin: new Date().toISOString() };
+    await this.save([...this.stored().filter(candidate => candidate.server !== server), entry]);
+    logInfo(`Logged in to registry ${server} as ${username}`);
+    await this.refresh();
+    return { ...entry, loggedIn: true };
+  }
+
+  private async renewLogin(server: string): Promise<RegistryEntry | undefined> {
+    const entry = this.stored().find(candidate => candidate.server === server);
+    const password = entry ? await this.context.secrets.get(this.secretKey(server)) : undefined;
+    if (!entry || !password) {
+      return undefined;
+    }
+
+    try {
+      logInfo(`Renewing login to ${server} with stored credentials`);
+      return await this.loginWith(server, entry.username, password);
+    } catch (error) {
+      logWarn(`Stored credentials for ${server} were rejected: ${error}`);
+      await this.refresh();
+      return undefined;
+    }
+  }
+
+  private async promptLogin(server: string, error: AppleContainerError): Promise<RegistryEntry | undefined> {
+    const choice = await vscode.window.showWarningMessage(
+      `${server} requires authentication: ${error.message}`,
+      'Log In'
+    );
+    return choice === 'Log In' ? this.login(server) : undefined;
+  }
+
+  private find(server: string): RegistryEntry | undefined {
+    return this.list().find(entry => entry.server === server);
+  }
+
+  private stored(): StoredRegistry[] {
+    return this.context.globalState.get<StoredRegistry[]>(REGISTRIES_KEY, []);
+  }
+
+  private async save(entries: StoredRegistry[]): Promise<void> {
+    await this.context.globalState.update(REGISTRIES_KEY, entries.sort((a, b) => a.server.localeCompare(b.server)));
+    this.changeEmitter.fire();
+  }
+
+  private secretKey(server: string): string {
+    return `${SECRET_PREFIX}${server}`;
+  }
+}
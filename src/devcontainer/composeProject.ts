@@ -0,0 +1,553 @@
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { promises as fs } from 'node:fs';
+import { parse as parseYaml } from 'yaml';
+
+import { ContainerCli, ContainerCreateOptions, ContainerSummary, VolumeMapping } from '../cli/containerCli';
+import { AppleContainerError, ErrorCode, toAppleContainerError } from '../core/errors';
+import { log, logInfo, logWarn } from '../core/logger';
+
+export interface ComposeBuild {
+  context: string;
+  dockerfile?: string;
+  args: Record<string, string>;
+  target?: string;
+}
+
+export interface ComposeService {
+  name: string;
+  containerName: string;
+  image?: string;
+  build?: ComposeBuild;
+  ports: string[];
+  volumes: VolumeMapping[];
+  environment: Record<string, string>;
+  envFiles: string[];
+  command?: string[];
+  entrypoint?: string;
+  workingDir?: string;
+  user?: string;
+  cpus?: number;
+  memory?: string;
+  dependsOn: string[];
+}
+
+export interface ComposeProject {
+  name: string;
+  network: string;
+  directory: string;
+  services: Record<string, ComposeService>;
+}
+
+export type ComposeCreateOverride = (options: ContainerCreateOptions, service: ComposeService) => ContainerCreateOptions;
+
+type RawRecord = Record<string, unknown>;
+
+// Marks /etc/hosts lines written by the orchestrator so they can be replaced on the next `up`.
+const HOSTS_MARKER = '# acm-compose';
+
+export class ComposeOrchestrator {
+  constructor(private readonly cli: ContainerCli) { }
+
+  async load(files: string[], projectName: string): Promise<ComposeProject> {
+    if (files.length === 0) {
+      throw new AppleContainerError('dockerComposeFile must reference at least one compose file.', ErrorCode.CommandFailed);
+    }
+
+    const directory = path.dirname(files[0]);
+    // As with docker compose, the shell environment wins over the project's .env file.
+    const variables = { ...await this.readDotEnv(directory), ...process.env };
+
+    const merged: RawRecord = {};
+    for (const file of files) {
+      let content: string;
+      try {
+        content = await fs.readFile(file, 'utf8');
+      } catch (error) {
+        throw new AppleContainerError(`Failed to read compose file ${file}`, ErrorCode.CommandFailed, error);
+      }
+
+      const parsed = parseYaml(this.interpolate(content, variables)) as unknown;
+      if (!this.isRecord(parsed)) {
+        throw new AppleContainerError(`Compose file ${file} does not contain a mapping`, ErrorCode.CommandFailed);
+      }
+      this.mergeComposeFile(merged, parsed);
+    }
+
+    const name = this.slugify(typeof merged['name'] === 'string' ? merged['name'] : projectName);
+    const rawServices = this.isRecord(merged['services']) ? merged['services'] : {};
+
+    const services: Record<string, ComposeService> = {};
+    for (const [serviceName, rawService] of Object.entries(rawServices)) {
+      if (!this.isRecord(rawService)) {
+        continue;
+      }
+      services[serviceName] = this.parseService(serviceName, rawService, name, directory);
+    }
+
+    return {
+      name,
+      network: `${name}_default`,
+      directory,
+      services
+    };
+  }
+
+  // Returns the requested services plus their `depends_on` closure, dependencies first.
+  resolveStartOrder(project: ComposeProject, requested: string[]): string[] {
+    const ordered: string[] = [];
+    const visiting = new Set<string>();
+
+    const visit = (serviceName: string): void => {
+      if (ordered.includes(serviceName)) {
+        return;
+      }
+      const service = project.services[serviceName];
+      if (!service) {
+        throw new AppleContainerError(`Compose service "${serviceName}" is not defined`, ErrorCode.CommandFailed);
+      }
+      if (visiting.has(serviceName)) {
+        logWarn(`Circular depends_on detected at compose service ${serviceName}; ignoring the cycle.`);
+        return;
+      }
+      visiting.add(serviceName);
+      for (const dependency of service.dependsOn) {
+        visit(dependency);
+      }
+      visiting.delete(serviceName);
+      ordered.push(serviceName);
+    };
+
+    for (const serviceName of requested) {
+      visit(serviceName);
+    }
+    return ordered;
+  }
+
+  async build(project: ComposeProject, serviceNames: string[]): Promise<void> {
+    for (const serviceName of serviceNames) {
+      const service = project.services[serviceName];
+      if (!service?.build) {
+        continue;
+      }
+
+      const tag = service.image ?? `acm/${project.name}-${this.slugify(serviceName)}:dev`;
+      logInfo(`Building compose service ${serviceName} as ${tag}`);
+      await this.cli.buildImage({
+        context: service.build.context,
+        dockerfile: service.build.dockerfile,
+        buildArgs: service.build.args,
+        target: service.build.target,
+        tags: [tag],
+        cwd: project.directory
+      });
+      service.image = tag;
+    }
+  }
+
+  async up(
+    project: ComposeProject,
+    serviceNames: string[],
+    options: { recreate?: boolean; overrides?: Record<string, ComposeCreateOverride> } = {}
+  ): Promise<void> {
+    await this.ensureNetwork(project.network);
+
+    let containers = await this.cli.listContainers();
+    for (const serviceName of serviceNames) {
+      const service = project.services[serviceName];
+      if (!service.image) {
+        throw new AppleContainerError(`Compose service "${serviceName}" needs an image or a build section`, ErrorCode.CommandFailed);
+      }
+
+      const existing = this.findContainer(containers, service.containerName);
+      if (existing && options.recreate) {
+        await this.removeServiceContainer(existing);
+      } else if (existing) {
+        if (!this.isRunning(existing.status)) {
+          logInfo(`Starting existing compose service ${serviceName} (${service.containerName})`);
+          await this.cli.startContainer(existing.id);
+        } else {
+          log(`Compose service ${serviceName} already running`);
+        }
+        continue;
+      }
+
+      const baseOptions = this.toCreateOptions(project, service);
+      const override = options.overrides?.[serviceName];
+      const createOptions = override ? override(baseOptions, service) : baseOptions;
+      logInfo(`Creating compose service ${serviceName} (${service.containerName})`);
+      await this.cli.createContainer(createOptions);
+      containers = await this.cli.listContainers();
+    }
+
+    await this.linkServices(project, serviceNames);
+  }
+
+  async down(project: ComposeProject): Promise<void> {
+    const containers = await this.cli.listContainers();
+    for (const service of Object.values(project.services)) {
+      const existing = this.findContainer(containers, service.containerName);
+      if (existing) {
+        await this.removeServiceContainer(existing);
+      }
+    }
+  }
+
+  // Writes every running service's address into each container's /etc/hosts so services resolve by name.
+  async linkServices(project: ComposeProject, serviceNames: string[]): Promise<void> {
+    const containers = await this.cli.listContainers();
+    const entries: string[] = [];
+    for (const serviceName of serviceNames) {
+      const service = project.services[serviceName];
+      const container = this.findContainer(containers, service.containerName);
+      if (!container?.ipAddress) {
+        logWarn(`No IP address reported for compose service ${serviceName}; it will not be resolvable by name.`);
+        continue;
+      }
+      const aliases = Array.from(new Set([serviceName, service.containerName])).join(' ');
+      entries.push(`${container.ipAddress} ${aliases} ${HOSTS_MARKER}`);
+    }
+
+    if (entries.length === 0) {
+      return;
+    }
+
+    const script = [
+      `{ grep -v '${HOSTS_MARKER}$' /etc/hosts; printf '%s\\n' ${entries.map(entry => `'${entry}'`).join(' ')}; } > /tmp/acm-hosts`,
+      'cat /tmp/acm-hosts > /etc/hosts',
+      'rm -f /tmp/acm-hosts'
+    ].join(' && ');
+
+    for (const serviceName of serviceNames) {
+      const container = this.findContainer(containers, project.services[serviceName].containerName);
+      if (!container) {
+        continue;
+      }
+      try {
+        await this.cli.execInContainer(container.id, ['/bin/sh', '-c', script], { user: 'root', timeout: 15000 });
+      } catch (error) {
+        logWarn(`Failed to update /etc/hosts for compose service ${serviceName}: ${toAppleContainerError(error).message}`);
+      }
+    }
+  }
+
+  toCreateOptions(project: ComposeProject, service: ComposeService): ContainerCreateOptions {
+    const additionalArgs: string[] = [];
+    for (const [key, value] of Object.entries(service.environment)) {
+      additionalArgs.push('--env', `${key}=${value}`);
+    }
+    for (const envFile of service.envFiles) {
+      additionalArgs.push('--env-file', envFile);
+    }
+    if (service.entrypoint) {
+      additionalArgs.push('--entrypoint', service.entrypoint);
+    }
+    if (service.workingDir) {
+      additionalArgs.push('--workdir', service.workingDir);
+    }
+    if (service.user) {
+      additionalArgs.push('--user', service.user);
+    }
+
+    return {
+      image: service.image ?? '',
+      name: service.containerName,
+      cpus: service.cpus,
+      memory: service.memory,
+      ports: [...service.ports],
+      volumes: service.volumes.map(volume => ({ ...volume })),
+      network: project.network,
+      additionalArgs,
+      command: service.command
+    };
+  }
+
+  private async ensureNetwork(name: string): Promise<void> {
+    try {
+      await this.cli.createNetwork(name);
+      logInfo(`Created compose network ${name}`);
+    } catch (error) {
+      const containerError = toAppleContainerError(error);
+      if (/exist/i.test(containerError.message)) {
+        log(`Compose network ${name} already exists`);
+        return;
+      }
+      throw containerError;
+    }
+  }
+
+  private async removeServiceContainer(container: ContainerSummary): Promise<void> {
+    if (this.isRunning(container.status)) {
+      try {
+        await this.cli.stopContainer(container.id);
+      } catch {
+        await this.cli.killContainer(container.id);
+      }
+    }
+    await this.cli.removeContainer(container.id);
+    logInfo(`Removed compose container ${container.name}`);
+  }
+
+  private parseService(serviceName: string, raw: RawRecord, projectName: string, directory: string): ComposeService {
+    const resources = this.getRecord(this.getRecord(this.getRecord(raw['deploy'])?.['resources'])?.['limits']);
+    const cpusRaw = raw['cpus'] ?? resources?.['cpus'];
+    const cpus = cpusRaw !== undefined ? Number.parseFloat(String(cpusRaw)) : undefined;
+    const memoryRaw = raw['mem_limit'] ?? resources?.['memory'];
+
+    return {
+      name: serviceName,
+      containerName: typeof raw['container_name'] === 'string' ? raw['container_name'] : `${projectName}-${this.slugify(serviceName)}`,
+      image: typeof raw['image'] === 'string' ? raw['image'] : undefined,
+      build: this.parseBuild(raw['build'], directory),
+      ports: this.parsePorts(raw['ports']),
+      volumes: this.parseVolumes(raw['volumes'], directory),
+      environment: this.parseEnvironment(raw['environment']),
+      envFiles: this.toStringList(raw['env_file']).map(file => path.resolve(directory, file)),
+      command: this.parseCommand(raw['command']),
+      entrypoint: Array.isArray(raw['entrypoint']) ? raw['entrypoint'].map(String).join(' ') : this.optionalString(raw['entrypoint']),
+      workingDir: this.optionalString(raw['working_dir']),
+      user: this.optionalString(raw['user']),
+      cpus: cpus !== undefined && !Number.isNaN(cpus) ? cpus : undefined,
+      memory: memoryRaw !== undefined ? String(memoryRaw) : undefined,
+      dependsOn: this.isRecord(raw['depends_on']) ? Object.keys(raw['depends_on']) : this.toStringList(raw['depends_on'])
+    };
+  }
+
+  private parseBuild(value: unknown, directory: string): ComposeBuild | undefined {
+    if (typeof value === 'string') {
+      return { context: path.resolve(directory, value), args: {} };
+    }
+    if (!this.isRecord(value)) {
+      return undefined;
+    }
+
+    const context = path.resolve(directory, this.optionalString(value['context']) ?? '.');
+    const dockerfile = this.optionalString(value['dockerfile']);
+    return {
+      context,
+      dockerfile: dockerfile ? path.resolve(context, dockerfile) : undefined,
+      args: this.parseEnvironment(value['args']),
+      target: this.optionalString(value['target'])
+    };
+  }
+
+  private parsePorts(value: unknown): string[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    const ports: string[] = [];
+    for (const entry of value) {
+      if (typeof entry === 'number') {
+        ports.push(`${entry}:${entry}`);
+        continue;
+      }
+      if (typeof entry === 'string') {
+        const trimmed = entry.trim();
+        if (!trimmed) {
+          continue;
+        }
+        // A bare container port has no host binding in compose; publish it on the same host port.
+        ports.push(trimmed.includes(':') ? trimmed : `${trimmed.split('/')[0]}:${trimmed}`);
+        continue;
+      }
+      if (this.isRecord(entry) && entry['target'] !== undefined) {
+        const target = String(entry['target']);
+        const published = entry['published'] !== undefined ? String(entry['published']) : target;
+        const hostIp = this.optionalString(entry['host_ip']);
+        const protocol = this.optionalString(entry['protocol']);
+        const spec = `${hostIp ? `${hostIp}:` : ''}${published}:${target}`;
+        ports.push(protocol ? `${spec}/${protocol}` : spec);
+      }
+    }
+    return ports;
+  }
+
+  private parseVolumes(value: unknown, directory: string): VolumeMapping[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    const volumes: VolumeMapping[] = [];
+    for (const entry of value) {
+      if (typeof entry === 'string') {
+        const [source, target, mode] = entry.split(':');
+        if (!source || !target) {
+          logWarn(`Skipping anonymous compose volume ${entry}`);
+          continue;
+        }
+        const resolvedSource = this.resolveVolumeSource(source, directory);
+        volumes.push({
+          type: resolvedSource === source && !path.isAbsolute(source) ? 'volume' : 'bind',
+          source: resolvedSource,
+          target,
+          readOnly: mode?.split(',').includes('ro') ?? false
+        });
+        continue;
+      }
+      if (this.isRecord(entry)) {
+        const type = this.optionalString(entry['type']) ?? 'volume';
+        const source = this.optionalString(entry['source']);
+        const target = this.optionalString(entry['target']);
+        if (type === 'tmpfs' && target) {
+          volumes.push({ type: 'tmpfs', source: '', target });
+          continue;
+        }
+        if (!source || !target || (type !== 'bind' && type !== 'volume')) {
+          continue;
+        }
+        volumes.push({
+          type,
+          source: type === 'bind' ? path.resolve(directory, this.expandHome(source)) : source,
+          target,
+          readOnly: entry['read_only'] === true
+        });
+      }
+    }
+    return volumes;
+  }
+
+  // Paths are bind mounts relative to the compose file; bare names refer to named volumes.
+  private resolveVolumeSource(source: string, directory: string): string {
+    if (source.startsWith('.') || source.startsWith('/') || source.startsWith('~')) {
+      return path.resolve(directory, this.expandHome(source));
+    }
+    return source;
+  }
+
+  private expandHome(source: string): string {
+    return source === '~' || source.startsWith('~/') ? path.join(os.homedir(), source.slice(1)) : source;
+  }
+
+  private parseEnvironment(value: unknown): Record<string, string> {
+    const env: Record<string, string> = {};
+    if (Array.isArray(value)) {
+      for (const entry of value) {
+        const text = String(entry);
+        const eqIndex = text.indexOf('=');
+        if (eqIndex > 0) {
+          env[text.slice(0, eqIndex)] = text.slice(eqIndex + 1);
+        } else if (process.env[text] !== undefined) {
+          env[text] = process.env[text] ?? '';
+        }
+      }
+      return env;
+    }
+    if (this.isRecord(value)) {
+      for (const [key, entry] of Object.entries(value)) {
+        env[key] = entry === null || entry === undefined ? process.env[key] ?? '' : String(entry);
+      }
+    }
+    return env;
+  }
+
+  private parseCommand(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) {
+      return value.map(String);
+    }
+    if (typeof value === 'string' && value.trim()) {
+      const tokens = value.match(/"([^"]*)"|'([^']*)'|[^\s]+/g) ?? [];
+      return tokens.map(token => token.replace(/^['"]|['"]$/g, ''));
+    }
+    return undefined;
+  }
+
+  // Later files override earlier ones service by service, as with `docker compose -f a.yml -f b.yml`.
+  private mergeComposeFile(target: RawRecord, source: RawRecord): void {
+    for (const [key, value] of Object.entries(source)) {
+      if (key === 'services' && this.isRecord(value)) {
+        const services = this.isRecord(target['services']) ? target['services'] : {};
+        for (const [serviceName, service] of Object.entries(value)) {
+          const current = this.getRecord(services[serviceName]) ?? {};
+          services[serviceName] = this.isRecord(service) ? { ...current, ...service } : service;
+        }
+        target['services'] = services;
+      } else {
+        target[key] = value;
+      }
+    }
+  }
+
+  // Supports ${VAR}, ${VAR-default} (unset), ${VAR:-default} (unset or empty) and $VAR; $$ escapes a literal dollar.
+  private interpolate(content: string, variables: Record<string, string | undefined>): string {
+    return content.replace(/\$\$|\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?)-([^}]*))?\}|\$([A-Za-z_][A-Za-z0-9_]*)/g, (match, braced?: string, colon?: string, fallback?: string, bare?: string) => {
+      if (match === '$$') {
+        return '$';
+      }
+      const value = variables[braced ?? bare ?? ''];
+      if (fallback === undefined) {
+        return value ?? '';
+      }
+      const useFallback = colon ? value === undefined || value === '' : value === undefined;
+      return useFallback ? fallback : value ?? '';
+    });
+  }
+
+  // Reads KEY=VALUE lines from the project's .env file; comments, `export` and quotes are handled.
+  private async readDotEnv(directory: string): Promise<Record<string, string>> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(directory, '.env'), 'utf8');
+    } catch {
+      return {};
+    }
+
+    const variables: Record<string, string> = {};
+    for (const rawLine of content.split(/\r?\n/)) {
+      const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/.exec(rawLine);
+      if (!match) {
+        continue;
+      }
+      const [, key, rawValue] = match;
+      const quoted = /^(['"])(.*)\1$/.exec(rawValue);
+      variables[key] = quoted ? quoted[2] : rawValue.replace(/\s+#.*$/, '');
+    }
+    log(`Read ${Object.keys(variables).length} variable(s) from ${path.join(directory, '.env')}`);
+    return variables;
+  }
+
+  private findContainer(containers: ContainerSummary[], name: string): ContainerSummary | undefined {
+    return containers.find(container => container.name === name || container.id === name);
+  }
+
+  private isRunning(status?: string): boolean {
+    const normalized = status?.toLowerCase() ?? '';
+    return normalized.includes('running') || normalized.startsWith('up');
+  }
+
+  private toStringList(value: unknown): string[] {
+    if (typeof value === 'string') {
+      return [value];
+    }
+    if (Array.isArray(value)) {
+      return value.filter((entry): entry is string => typeof entry === 'string');
+    }
+    return [];
+  }
+
+  private optionalString(value: unknown): string | undefined {
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    return undefined;
+  }
+
+  private getRecord(value: unknown): RawRecord | undefined {
+    return this.isRecord(value) ? value : undefined;
+  }
+
+  private isRecord(value: unknown): value is RawRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private slugify(value: string): string {
+    const slug = value
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    return slug.length > 0 ? slug : 'project';
+  }
+}
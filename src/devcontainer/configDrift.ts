@@ -0,0 +1,38 @@
+import { createHash } from 'node:crypto';
+
+// Label stamped on every devcontainer-managed container with the hash of the configuration it was created from.
+export const CONFIG_HASH_LABEL = 'dev.acm.config-hash';
+
+export interface ConfigSnapshot {
+  hash: string;
+  values: Record<string, string>;
+  createdAt: string;
+}
+
+export function createSnapshot(values: Record<string, string>): ConfigSnapshot {
+  const ordered = Object.keys(values)
+    .sort()
+    .map(key => [key, values[key]]);
+  const hash = createHash('sha256').update(JSON.stringify(ordered)).digest('hex').slice(0, 16);
+  return { hash, values, createdAt: new Date().toISOString() };
+}
+
+export function diffSnapshots(previous: ConfigSnapshot, current: ConfigSnapshot): string[] {
+  const keys = Array.from(new Set([...Object.keys(previous.values), ...Object.keys(current.values)])).sort();
+  const changes: string[] = [];
+  for (const key of keys) {
+    const before = previous.values[key];
+    const after = current.values[key];
+    if (before === after) {
+      continue;
+    }
+    if (before === undefined) {
+      changes.push(`+ ${key}: ${after}`);
+    } else if (after === undefined) {
+      changes.push(`- ${key}: ${before}`);
+    } else {
+      changes.push(`~ ${key}: ${before} → ${after}`);
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,123 @@
+import * as path from 'node:path';
+
+type ConfigRecord = Record<string, unknown>;
+
+/**
+ * Merges a child devcontainer configuration over the configuration it `extends`.
+ *
+ * - Objects (`containerEnv`, `build`, `features`, `customizations`, ...) are merged recursively; the child wins.
+ * - `mounts` are combined; a child mount replaces a parent mount with the same target.
+ * - `forwardPorts` are combined without duplicates.
+ * - `runArgs` are concatenated, parent first, so child flags take precedence when parsed.
+ * - Every other array and scalar from the child replaces the parent value.
+ */
+export function mergeConfigs(parent: ConfigRecord, child: ConfigRecord): ConfigRecord {
+  const merged: ConfigRecord = { ...parent };
+
+  for (const [key, value] of Object.entries(child)) {
+    const existing = merged[key];
+    if (value === undefined) {
+      continue;
+    }
+
+    if (key === 'mounts' && Array.isArray(existing) && Array.isArray(value)) {
+      merged[key] = mergeMounts(existing, value);
+    } else if (key === 'forwardPorts' && Array.isArray(existing) && Array.isArray(value)) {
+      merged[key] = Array.from(new Set([...existing, ...value]));
+    } else if (key === 'runArgs' && Array.isArray(existing) && Array.isArray(value)) {
+      merged[key] = [...existing, ...value];
+    } else if (isPlainObject(existing) && isPlainObject(value)) {
+      merged[key] = mergeObjects(existing, value);
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  delete merged['extends'];
+  return merged;
+}
+
+/**
+ * Makes paths that are resolved relative to the config file absolute, so they keep pointing at the
+ * same files once a configuration from another directory is merged on top.
+ */
+export function rebaseConfigPaths(config: ConfigRecord, configDirectory: string): ConfigRecord {
+  const rebased: ConfigRecord = { ...config };
+  const toAbsolute = (value: string): string => (path.isAbsolute(value) || value.includes('${') ? value : path.resolve(configDirectory, value));
+
+  const composeFiles = config['dockerComposeFile'];
+  if (typeof composeFiles === 'string') {
+    rebased['dockerComposeFile'] = toAbsolute(composeFiles);
+  } else if (Array.isArray(composeFiles)) {
+    rebased['dockerComposeFile'] = composeFiles.map(file => (typeof file === 'string' ? toAbsolute(file) : file));
+  }
+
+  const build = config['build'];
+  if (isPlainObject(build)) {
+    const rebasedBuild: ConfigRecord = { ...build };
+    for (const key of ['context', 'dockerfile']) {
+      const value = build[key];
+      if (typeof value === 'string') {
+        rebasedBuild[key] = toAbsolute(value);
+      }
+    }
+    // A child that only sets `dockerfile` still builds in the parent's directory.
+    if (rebasedBuild['context'] === undefined) {
+      rebasedBuild['context'] = configDirectory;
+    }
+    rebased['build'] = rebasedBuild;
+  }
+
+  const features = config['features'];
+  if (isPlainObject(features)) {
+    rebased['features'] = Object.fromEntries(
+      Object.entries(features).map(([reference, value]) => [
+        reference.startsWith('./') || reference.startsWith('../') ? toAbsolute(reference) : reference,
+        value
+      ])
+    );
+  }
+
+  return rebased;
+}
+
+function mergeObjects(parent: ConfigRecord, child: ConfigRecord): ConfigRecord {
+  const merged: ConfigRecord = { ...parent };
+  for (const [key, value] of Object.entries(child)) {
+    const existing = merged[key];
+    merged[key] = isPlainObject(existing) && isPlainObject(value) ? mergeObjects(existing, value) : value;
+  }
+  return merged;
+}
+
+function mergeMounts(parent: unknown[], child: unknown[]): unknown[] {
+  const childTargets = new Set(child.map(mountTarget).filter((target): target is string => Boolean(target)));
+  return [
+    ...parent.filter(mount => {
+      const target = mountTarget(mount);
+      return !target || !childTargets.has(target);
+    }),
+    ...child
+  ];
+}
+
+function mountTarget(mount: unknown): string | undefined {
+  if (isPlainObject(mount)) {
+    const target = mount['target'] ?? mount['destination'] ?? mount['dst'];
+    return typeof target === 'string' ? target : undefined;
+  }
+  if (typeof mount !== 'string') {
+    return undefined;
+  }
+  for (const part of mount.split(',')) {
+    const [key, value] = part.split('=');
+    if (value && ['target', 'destination', 'dst'].includes(key.trim())) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function isPlainObject(value: unknown): value is ConfigRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,271 @@
+import { getNodeValue, Node, ParseError, parseTree, printParseErrorCode } from 'jsonc-parser';
+
+export type ConfigIssueSeverity = 'error' | 'warning';
+
+export interface ConfigIssue {
+  message: string;
+  severity: ConfigIssueSeverity;
+  offset: number;
+  length: number;
+}
+
+export interface ConfigParseResult<T> {
+  config?: T;
+  issues: ConfigIssue[];
+}
+
+type ValueKind = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+interface PropertySchema {
+  types: ValueKind[];
+  items?: ValueKind[];
+  values?: ValueKind[];
+  enum?: string[];
+  properties?: Record<string, PropertySchema>;
+  // Objects that may carry keys owned by other tools; only the listed properties are checked.
+  open?: boolean;
+}
+
+const STRING: PropertySchema = { types: ['string'] };
+const NUMBER: PropertySchema = { types: ['number'] };
+const BOOLEAN: PropertySchema = { types: ['boolean'] };
+const OBJECT: PropertySchema = { types: ['object'] };
+const STRING_ARRAY: PropertySchema = { types: ['array'], items: ['string'] };
+const STRING_MAP: PropertySchema = { types: ['object'], values: ['string'] };
+const COMMAND: PropertySchema = { types: ['string', 'array', 'object'], items: ['string'], values: ['string', 'array'] };
+
+const LIFECYCLE_STAGES = ['initializeCommand', 'onCreateCommand', 'updateContentCommand', 'postCreateCommand', 'postStartCommand', 'postAttachCommand'];
+
+const BUILD_SCHEMA: Record<string, PropertySchema> = {
+  dockerfile: STRING,
+  context: STRING,
+  args: STRING_MAP,
+  labels: STRING_MAP,
+  target: STRING,
+  options: STRING_ARRAY,
+  cacheFrom: { types: ['string', 'array'], items: ['string'] },
+  noCache: BOOLEAN,
+  platform: STRING,
+  arch: STRING,
+  os: STRING,
+  cpus: { types: ['number', 'string'] },
+  memory: STRING,
+  progress: { types: ['string'], enum: ['auto', 'plain', 'tty'] },
+  quiet: BOOLEAN,
+  image: { types: ['string', 'array'], items: ['string'] },
+  additionalImageTags: STRING_ARRAY
+};
+
+// Properties from the devcontainer.json reference plus the Apple-specific keys this extension understands.
+const CONFIG_SCHEMA: Record<string, PropertySchema> = {
+  $schema: STRING,
+  extends: STRING,
+  name: STRING,
+  image: STRING,
+  build: { types: ['object'], properties: BUILD_SCHEMA },
+  dockerFile: STRING,
+  context: STRING,
+  dockerComposeFile: { types: ['string', 'array'], items: ['string'] },
+  service: STRING,
+  runServices: STRING_ARRAY,
+  remoteUser: STRING,
+  containerUser: STRING,
+  updateRemoteUserUID: BOOLEAN,
+  userEnvProbe: { types: ['string'], enum: ['none', 'loginShell', 'loginInteractiveShell', 'interactiveShell'] },
+  workspaceFolder: STRING,
+  workspaceMount: STRING,
+  runArgs: STRING_ARRAY,
+  containerEnv: STRING_MAP,
+  remoteEnv: { types: ['object'], values: ['string', 'null'] },
+  mounts: { types: ['array'], items: ['string', 'object'] },
+  forwardPorts: { types: ['array'], items: ['number', 'string'] },
+  appPort: { types: ['number', 'string', 'array'], items: ['number', 'string'] },
+  portsAttributes: OBJECT,
+  otherPortsAttributes: OBJECT,
+  initializeCommand: COMMAND,
+  onCreateCommand: COMMAND,
+  updateContentCommand: COMMAND,
+  postCreateCommand: COMMAND,
+  postStartCommand: COMMAND,
+  postAttachCommand: COMMAND,
+  waitFor: { types: ['string'], enum: LIFECYCLE_STAGES },
+  overrideCommand: BOOLEAN,
+  shutdownAction: { types: ['string'], enum: ['none', 'stopContainer', 'stopCompose'] },
+  features: OBJECT,
+  overrideFeatureInstallOrder: STRING_ARRAY,
+  hostRequirements: {
+    types: ['object'],
+    properties: {
+      cpus: NUMBER,
+      memory: STRING,
+      storage: STRING,
+      gpu: { types: ['boolean', 'string', 'object'] }
+    }
+  },
+  init: BOOLEAN,
+  privileged: BOOLEAN,
+  capAdd: STRING_ARRAY,
+  securityOpt: STRING_ARRAY,
+  customizations: {
+    types: ['object'],
+    open: true,
+    properties: {
+      appleContainer: {
+        types: ['object'],
+        properties: {
+          cpus: { types: ['number', 'string'] },
+          memory: STRING,
+          arch: { types: ['string'], enum: ['arm64', 'amd64'] },
+          dnsName: STRING,
+          network: STRING
+        }
+      }
+    }
+  }
+};
+
+export function parseDevcontainerConfig<T>(content: string): ConfigParseResult<T> {
+  const errors: ParseError[] = [];
+  const root = parseTree(content, errors, { allowTrailingComma: true, disallowComments: false });
+
+  const issues: ConfigIssue[] = errors.map(error => ({
+    message: `Syntax error: ${describeParseError(printParseErrorCode(error.error))}`,
+    severity: 'error',
+    offset: error.offset,
+    length: Math.max(error.length, 1)
+  }));
+
+  if (!root) {
+    if (issues.length === 0) {
+      issues.push({ message: 'Configuration file is empty.', severity: 'error', offset: 0, length: 1 });
+    }
+    return { issues };
+  }
+
+  if (root.type !== 'object') {
+    issues.push({ message: 'devcontainer.json must contain a JSON object.', severity: 'error', offset: root.offset, length: root.length });
+    return { issues };
+  }
+
+  validateObject(root, CONFIG_SCHEMA, '', issues);
+
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+  return {
+    config: hasErrors ? undefined : getNodeValue(root) as T,
+    issues
+  };
+}
+
+// Converts a character offset into a zero-based line/column pair.
+export function offsetToPosition(content: string, offset: number): { line: number; character: number } {
+  let line = 0;
+  let lineStart = 0;
+  const limit = Math.min(offset, content.length);
+  for (let index = 0; index < limit; index += 1) {
+    if (content.charCodeAt(index) === 10) {
+      line += 1;
+      lineStart = index + 1;
+    }
+  }
+  return { line, character: limit - lineStart };
+}
+
+function validateObject(node: Node, schema: Record<string, PropertySchema>, pathPrefix: string, issues: ConfigIssue[], open = false): void {
+  for (const property of node.children ?? []) {
+    const [keyNode, valueNode] = property.children ?? [];
+    if (!keyNode || typeof keyNode.value !== 'string') {
+      continue;
+    }
+
+    const key = keyNode.value;
+    const propertyPath = pathPrefix ? `${pathPrefix}.${key}` : key;
+    const propertySchema = schema[key];
+    if (!propertySchema && open) {
+      continue;
+    }
+    if (!propertySchema) {
+      issues.push({
+        message: `Unknown property "${propertyPath}" will be ignored.`,
+        severity: 'warning',
+        offset: keyNode.offset,
+        length: keyNode.length
+      });
+      continue;
+    }
+
+    if (valueNode) {
+      validateValue(valueNode, propertySchema, propertyPath, issues);
+    }
+  }
+}
+
+function validateValue(node: Node, schema: PropertySchema, propertyPath: string, issues: ConfigIssue[]): void {
+  const kind = node.type as ValueKind;
+  if (!schema.types.includes(kind)) {
+    issues.push({
+      message: `"${propertyPath}" must be ${describeKinds(schema.types)} but is ${describeKinds([kind])}.`,
+      severity: 'error',
+      offset: node.offset,
+      length: node.length
+    });
+    return;
+  }
+
+  if (schema.enum && kind === 'string' && !schema.enum.includes(node.value as string)) {
+    issues.push({
+      message: `"${propertyPath}" should be one of: ${schema.enum.join(', ')}.`,
+      severity: 'warning',
+      offset: node.offset,
+      length: node.length
+    });
+  }
+
+  if (kind === 'array' && schema.items) {
+    for (const [index, item] of (node.children ?? []).entries()) {
+      if (!schema.items.includes(item.type as ValueKind)) {
+        issues.push({
+          message: `"${propertyPath}[${index}]" must be ${describeKinds(schema.items)} but is ${describeKinds([item.type as ValueKind])}.`,
+          severity: 'error',
+          offset: item.offset,
+          length: item.length
+        });
+      }
+    }
+  }
+
+  if (kind === 'object' && schema.properties) {
+    validateObject(node, schema.properties, propertyPath, issues, schema.open);
+  } else if (kind === 'object' && schema.values) {
+    for (const property of node.children ?? []) {
+      const [keyNode, valueNode] = property.children ?? [];
+      if (valueNode && !schema.values.includes(valueNode.type as ValueKind)) {
+        issues.push({
+          message: `"${propertyPath}.${String(keyNode?.value)}" must be ${describeKinds(schema.values)} but is ${describeKinds([valueNode.type as ValueKind])}.`,
+          severity: 'error',
+          offset: valueNode.offset,
+          length: valueNode.length
+        });
+      }
+    }
+  }
+}
+
+function describeKinds(kinds: ValueKind[]): string {
+  const labels = kinds.map(kind => {
+    switch (kind) {
+      case 'array':
+        return 'an array';
+      case 'object':
+        return 'an object';
+      case 'null':
+        return 'null';
+      default:
+        return `a ${kind}`;
+    }
+  });
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}` : labels[0];
+}
+
+function describeParseError(code: string): string {
+  return code.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
@@ -1,14 +1,83 @@
 import * as vscode from 'vscode';
 import * as path from 'node:path';
-import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import { Dirent, promises as fs } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
 
-import { ContainerCli, ContainerCreateOptions, ContainerExecOptions } from '../cli/containerCli';
+import { ContainerBuildOptions, ContainerCli, ContainerCreateOptions, ContainerExecOptions, MountType, VolumeMapping } from '../cli/containerCli';
 import { AppleContainerError, ErrorCode, toAppleContainerError } from '../core/errors';
+import { ImageTransferManager } from '../core/imageTransfers';
+import { BuildHistory } from '../core/buildHistory';
+import { ReadonlyDocumentProvider } from '../core/readonlyDocuments';
 import { SshManager } from './sshManager';
+import { FeatureBuilder, FeatureReference } from './featureBuilder';
+import { ComposeOrchestrator, ComposeService } from './composeProject';
+import { ConfigIssue, offsetToPosition, parseDevcontainerConfig } from './configParser';
+import { CONFIG_HASH_LABEL, ConfigSnapshot, createSnapshot, diffSnapshots } from './configDrift';
+import { LifecycleRunner } from './lifecycleRunner';
+import { mergeConfigs, rebaseConfigPaths } from './configMerge';
+import { parseRunArgs } from './runArgs';
 import { log, logError, logInfo, logWarn } from '../core/logger';
 import { AUTO_STOP_SCRIPT } from '../scripts/autoStopMonitor';
+import { USER_REMAP_SCRIPT } from '../scripts/userRemap';
 
-type DevcontainerCommand = string | string[];
+const execFileAsync = promisify(execFile);
+
+const SNAPSHOTS_KEY = 'appleContainer.devcontainer.configSnapshots';
+const IGNORED_DRIFT_KEY = 'appleContainer.devcontainer.ignoredDrift';
+const APPLIED_STATE_KEY = 'appleContainer.devcontainer.appliedState';
+const APPLIED_STATE_VERSION = 3;
+const SELECTED_CONFIG_KEY = 'appleContainer.devcontainer.selectedConfig';
+
+// Directories that may hold devcontainer.json directly or in named subfolders, in order of preference.
+const CONFIG_DIRECTORIES = ['.devcontainer', '.appcontainer'];
+
+const MAX_EXTENDS_DEPTH = 8;
+
+type DevcontainerCommand = string | string[] | Record<string, string | string[]>;
+
+type LifecycleStage = 'onCreateCommand' | 'updateContentCommand' | 'postCreateCommand' | 'postStartCommand' | 'postAttachCommand';
+
+type WaitForStage = 'initializeCommand' | LifecycleStage;
+
+type UserEnvProbe = 'none' | 'loginShell' | 'loginInteractiveShell' | 'interactiveShell';
+
+// Object form of a `mounts` entry, as defined by the devcontainer specification.
+interface DevcontainerMount {
+  type?: MountType;
+  source?: string;
+  target?: string;
+  readonly?: boolean;
+}
+
+const MOUNT_TYPES: MountType[] = ['bind', 'volume', 'tmpfs'];
+
+const USER_ENV_PROBE_FLAGS: Record<Exclude<UserEnvProbe, 'none'>, string> = {
+  loginShell: '-lc',
+  interactiveShell: '-ic',
+  loginInteractiveShell: '-lic'
+};
+
+// Shell bookkeeping variables that should not leak from the probe into exec'd commands.
+const PROBE_EXCLUDED_VARIABLES = new Set(['_', 'PWD', 'OLDPWD', 'SHLVL', 'HOSTNAME']);
+
+// Container-side lifecycle stages in the order defined by the devcontainer specification.
+const LIFECYCLE_STAGES: LifecycleStage[] = [
+  'onCreateCommand',
+  'updateContentCommand',
+  'postCreateCommand',
+  'postStartCommand',
+  'postAttachCommand'
+];
+
+// Stages that only run once per container; completion is recorded in ~/.apple-container-state/.
+const STAGE_MARKERS: Partial<Record<LifecycleStage, string>> = {
+  onCreateCommand: 'on-create-done',
+  updateContentCommand: 'update-content-done',
+  postCreateCommand: 'post-create-done'
+};
 
 interface DevcontainerBuildConfig {
   dockerfile?: string;
@@ -33,23 +102,53 @@ interface DevcontainerConfig {
   name?: string;
   image?: string;
   remoteUser?: string;
+  containerUser?: string;
+  updateRemoteUserUID?: boolean;
   workspaceFolder?: string;
   runArgs?: string[];
   containerEnv?: Record<string, string>;
-  mounts?: string[];
+  remoteEnv?: Record<string, string | null>;
+  userEnvProbe?: UserEnvProbe;
+  mounts?: Array<string | DevcontainerMount>;
   forwardPorts?: Array<number | string>;
+  initializeCommand?: DevcontainerCommand;
+  onCreateCommand?: DevcontainerCommand;
+  updateContentCommand?: DevcontainerCommand;
   postCreateCommand?: DevcontainerCommand;
   postStartCommand?: DevcontainerCommand;
+  postAttachCommand?: DevcontainerCommand;
+  waitFor?: WaitForStage;
+  features?: Record<string, FeatureReference>;
+  dockerComposeFile?: string | string[];
+  service?: string;
+  runServices?: string[];
+  overrideCommand?: boolean;
   build?: DevcontainerBuildConfig;
   hostRequirements?: {
     cpus?: number;
     memory?: string;
   };
+  extends?: string;
+  customizations?: {
+    appleContainer?: AppleContainerCustomizations;
+    [tool: string]: unknown;
+  };
+}
+
+// Apple-specific settings, typically set in an `.appcontainer.json` overlay that `extends` a standard config.
+interface AppleContainerCustomizations {
+  cpus?: number | string;
+  memory?: string;
+  arch?: string;
+  dnsName?: string;
+  network?: string;
 }
 
 interface LoadedConfig {
   config: DevcontainerConfig;
   path: string;
+  // Files that contributed to the configuration, from the root of the `extends` chain to `path`.
+  chain: string[];
 }
 
 interface ResolvedBuildConfig {
@@ -73,101 +172,233 @@ interface ResolvedBuildConfig {
 interface ResolvedConfig {
   name: string;
   image: string;
+  arch?: string;
+  network?: string;
+  labels: Record<string, string>;
   remoteUser?: string;
+  containerUser?: string;
+  updateRemoteUserUID: boolean;
   workspaceFolder: string;
   workspacePath: string;
   ports: string[];
-  volumes: {
-    source: string;
-    target: string;
-    readOnly?: boolean;
-  }[];
+  volumes: VolumeMapping[];
   cpus?: number;
   memory?: string;
   additionalArgs: string[];
+  runArgWarnings: string[];
   containerEnv: Record<string, string>;
+  remoteEnv: Record<string, string | null>;
+  userEnvProbe: UserEnvProbe;
+  devcontainerId: string;
+  initializeCommand?: DevcontainerCommand;
+  onCreateCommand?: DevcontainerCommand;
+  updateContentCommand?: DevcontainerCommand;
   postCreateCommand?: DevcontainerCommand;
   postStartCommand?: DevcontainerCommand;
+  postAttachCommand?: DevcontainerCommand;
+  waitFor: WaitForStage;
+  configDirectory: string;
+  features: Record<string, FeatureReference>;
+  compose?: ResolvedComposeConfig;
+  overrideCommand: boolean;
+  configHash?: string;
   build?: ResolvedBuildConfig;
 }
 
-interface RunArgsParseResult {
-  cpus?: number;
-  memory?: string;
-  user?: string;
-  workdir?: string;
-  additional: string[];
+interface ResolvedComposeConfig {
+  files: string[];
+  service: string;
+  runServices?: string[];
+  projectName: string;
+}
+
+type DriftDecision = 'none' | 'rebuild' | 'apply' | 'ignore';
+
+// What was applied to a workspace folder; persisted in workspace state so it survives window reloads.
+// `config` is the configuration the container was created from, with build arg values redacted.
+// Bump APPLIED_STATE_VERSION when `ResolvedConfig` changes shape; entries with another version are dropped.
+interface AppliedDevcontainer {
+  version: number;
+  containerName: string;
+  config: ResolvedConfig;
+  configHash?: string;
+  containerId?: string;
+  sshPort?: string;
+  // `<user>:<uid>:<gid>` the remote user was aligned to in this container (updateRemoteUserUID).
+  remappedUser?: string;
+  createdAt?: string;
+  appliedAt: string;
+}
+
+interface LifecycleStageSelection {
+  runCreate: boolean;
+  runStart: boolean;
+  runAttach: boolean;
+}
+
+interface PreparedCommand {
+  name?: string;
+  argv: string[];
+  display: string;
 }
 
 interface VariableContext {
   workspaceFolder: string;
   workspaceBasename: string;
   containerWorkspaceFolder: string;
+  devcontainerId: string;
   env: NodeJS.ProcessEnv;
+  // Only known once the container exists; `${containerEnv:...}` is left in place until then.
+  containerEnv?: Record<string, string>;
 }
 
 export class DevcontainerManager implements vscode.Disposable {
-  private readonly appliedState = new Map<string, ResolvedConfig>();
+  private readonly appliedState: Map<string, AppliedDevcontainer>;
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection('appleContainer.devcontainer');
+  // Config hashes the user chose to "Apply anyway" for during this session, so follow-up applies do not prompt again.
+  private readonly acknowledgedDrift = new Map<string, string>();
+  // Probed shell environments keyed by container, user and probe mode; cleared whenever a container is provisioned.
+  private readonly userEnvCache = new Map<string, Record<string, string>>();
+  // Containers whose remote user was remapped since they were last recorded in the applied state.
+  private readonly remappedUsers = new Map<string, string>();
+  private readonly lifecycleRunner: LifecycleRunner;
+  private readonly documentProvider = new ReadonlyDocumentProvider('acm-devcontainer');
 
   constructor(
-    private readonly cli: ContainerCli
-  ) { }
+    private readonly cli: ContainerCli,
+    private readonly context: vscode.ExtensionContext,
+    private readonly imageTransfers: ImageTransferManager,
+    private readonly builds: BuildHistory
+  ) {
+    this.appliedState = new Map(
+      Object.entries(context.workspaceState.get<Record<string, AppliedDevcontainer>>(APPLIED_STATE_KEY, {}))
+        .filter(([, entry]) => entry?.version === APPLIED_STATE_VERSION)
+    );
+    this.lifecycleRunner = new LifecycleRunner(cli, path.join(context.globalStorageUri.fsPath, 'lifecycle-transcripts'));
+  }
 
   dispose(): void {
     this.appliedState.clear();
+    this.acknowledgedDrift.clear();
+    this.userEnvCache.clear();
+    this.remappedUsers.clear();
+    this.documentProvider.dispose();
+    this.diagnostics.dispose();
+  }
+
+  validateDocument(document: vscode.TextDocument): void {
+    if (document.uri.scheme !== 'file' || !this.isConfigFile(document.uri.fsPath)) {
+      return;
+    }
+    this.parseConfig(document.getText(), document.uri.fsPath);
+  }
+
+  /** Offers a rebuild when a saved config, Dockerfile or compose file no longer matches the running container. */
+  async checkDriftOnSave(document: vscode.TextDocument): Promise<void> {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (document.uri.scheme !== 'file' || !folder) {
+      return;
+    }
+
+    const savedPath = document.uri.fsPath;
+    const basename = path.basename(savedPath).toLowerCase();
+    const candidate = this.isConfigFile(savedPath) || basename.includes('dockerfile') || /compose.*\.ya?ml$/.test(basename);
+    if (!candidate) {
+      return;
+    }
+
+    try {
+      const loaded = await this.loadConfig(folder.uri.fsPath, { interactive: false });
+      if (!loaded) {
+        return;
+      }
+
+      const resolved = this.resolveConfig(loaded.config, folder.uri.fsPath, loaded.path);
+      const related = [
+        ...loaded.chain,
+        resolved.build ? resolved.build.dockerfile ?? path.join(resolved.build.context, 'Dockerfile') : undefined,
+        ...(resolved.compose?.files ?? [])
+      ];
+      if (!related.includes(savedPath)) {
+        return;
+      }
+
+      const decision = await this.checkConfigDrift(resolved, await this.createConfigSnapshot(resolved), { modal: false });
+      if (decision === 'rebuild') {
+        await vscode.commands.executeCommand('appleContainer.devcontainer.rebuild');
+      } else if (decision === 'apply') {
+        await vscode.commands.executeCommand('appleContainer.devcontainer.apply');
+      }
+    } catch (error) {
+      logWarn(`Skipped configuration drift check for ${path.basename(savedPath)}: ${toAppleContainerError(error).message}`);
+    }
   }
 
-  async applyDevcontainer(options: { rebuild?: boolean } = {}): Promise<void> {
+  /**
+   * Builds, creates or reuses the workspace's devcontainer. Resolves to the applied configuration,
+   * or undefined when nothing was applied (no folder or config, or the drift prompt was dismissed).
+   */
+  async applyDevcontainer(options: { rebuild?: boolean } = {}): Promise<ResolvedConfig | undefined> {
     const folder = await this.pickWorkspaceFolder();
     if (!folder) {
-      return;
+      return undefined;
     }
 
     const workspacePath = folder.uri.fsPath;
     const loaded = await this.loadConfig(workspacePath);
     if (!loaded) {
       void vscode.window.showWarningMessage('No devcontainer configuration found in this workspace.');
-      return;
+      return undefined;
     }
 
-    const resolved = this.resolveConfig(loaded.config, workspacePath);
+    const resolved = this.resolveConfig(loaded.config, workspacePath, loaded.path);
     const containerName = resolved.name;
     logInfo(`Applying devcontainer configuration ${path.relative(workspacePath, loaded.path)}`);
 
+    const snapshot = await this.createConfigSnapshot(resolved);
+    resolved.configHash = snapshot.hash;
+
+    let rebuild = options.rebuild ?? false;
+    if (!rebuild) {
+      const decision = await this.checkConfigDrift(resolved, snapshot, { modal: true });
+      if (!decision) {
+        logInfo(`Apply of ${containerName} cancelled at configuration drift prompt.`);
+        return undefined;
+      }
+      rebuild = decision === 'rebuild';
+    }
+
+    await this.runInitializeCommand(resolved);
+
+    if (resolved.compose) {
+      const recreated = rebuild || !(await this.findContainerByName(containerName));
+      const containerId = await this.applyComposeDevcontainer(resolved, rebuild);
+      if (recreated) {
+        await this.saveConfigSnapshot(containerName, snapshot);
+      }
+      await this.recordAppliedState(folder, resolved, containerId, recreated);
+      void vscode.window.showInformationMessage(`Devcontainer ${containerName} is ready.`);
+      return resolved;
+    }
+
     if (resolved.build) {
       await this.executeImageBuild(resolved);
+    } else {
+      await this.imageTransfers.ensureImage(resolved.image, { arch: resolved.arch });
     }
 
+    await this.executeFeatureBuild(resolved);
+
     const existing = await this.findContainerByName(containerName);
     if (existing) {
-      if (!options.rebuild) {
+      if (!rebuild) {
         logInfo(`Reuse existing container ${containerName} (${existing.id}).`);
-        // Ensure it is running
-        // Ensure it is running
-        await this.cli.startContainer(existing.id);
-        await this.delay(vscode.workspace.getConfiguration('appleContainer').get<number>('cli.executionCoolDown', 3000)); // Wait for container to stabilize
-
-        // We still need to ensure SSH keys and config are up to date
-        const sshManager = new SshManager();
-        const sshKey = await sshManager.ensureSshKey();
-
-        // Inject key again (idempotent-ish) to be safe
-        await this.injectSshKey(existing.id, sshKey, resolved.remoteUser);
-
-        // Update config
-        const sshPort = this.detectForwardedPort(resolved.ports, 22) ?? '2222';
-        await sshManager.updateConfig(containerName, sshPort, resolved.remoteUser);
-
-        // Ensure auto-stop monitor is running (if enabled)
-        await this.injectAutoStopScript(existing.id, resolved.remoteUser);
-
-        await this.runPostCommands(existing.id, resolved, {
-          runCreate: Boolean(resolved.postCreateCommand),
-          runStart: Boolean(resolved.postStartCommand)
-        });
+        // Ensure it is running, SSH keys and config are up to date, and lifecycle commands have run
+        await this.provisionContainer(existing.id, resolved);
+        await this.recordAppliedState(folder, resolved, existing.id, false);
 
         void vscode.window.showInformationMessage(`Devcontainer ${containerName} is ready (reused).`);
-        return;
+        return resolved;
       }
 
       logInfo(`Existing container ${containerName} detected (${existing.id}); preparing to rebuild.`);
@@ -177,9 +408,6 @@ export class DevcontainerManager implements vscode.Disposable {
       await this.delay(vscode.workspace.getConfiguration('appleContainer').get<number>('cli.executionCoolDown', 3000)); // Wait for cleanup
     }
 
-    const sshManager = new SshManager();
-    const sshKey = await sshManager.ensureSshKey();
-
     const createOptions = this.toCreateOptions(resolved);
 
     // Inject SSH setup payload into postCreateCommand or minimal init
@@ -215,10 +443,12 @@ export class DevcontainerManager implements vscode.Disposable {
       }
     }
 
+    await this.saveConfigSnapshot(containerName, snapshot);
+
     const created = await this.waitForContainer(containerName, 5_000);
     if (!created) {
       logWarn(`Container ${containerName} not visible after creation; post commands will be skipped.`);
-      return;
+      return undefined;
     }
 
     // Ensure container is running before attempting to inject keys or run commands
@@ -228,27 +458,145 @@ export class DevcontainerManager implements vscode.Disposable {
     // docker run starts it.
     // BUT if we caught "exists", it might be stopped.
     // So ensuring start is good.
-    await this.cli.startContainer(created.id ?? containerName);
+    await this.provisionContainer(created.id ?? containerName, resolved);
+    await this.recordAppliedState(folder, resolved, created.id, true);
+
+    void vscode.window.showInformationMessage(`Devcontainer ${containerName} is ready.`);
+    return resolved;
+  }
+
+  private async provisionContainer(containerId: string, resolved: ResolvedConfig): Promise<void> {
+    this.userEnvCache.clear();
+    await this.cli.startContainer(containerId);
     await this.delay(vscode.workspace.getConfiguration('appleContainer').get<number>('cli.executionCoolDown', 3000)); // Wait for startup
 
-    // Inject SSH key immediately after container is waiting
-    await this.injectSshKey(created.id ?? containerName, sshKey, resolved.remoteUser);
+    // Remap before anything writes into the user's home so SSH keys and markers get the final owner.
+    await this.updateRemoteUserUid(containerId, resolved);
 
-    this.appliedState.set(folder.uri.toString(), resolved);
+    // Inject SSH key immediately after container is running (idempotent-ish, safe on reuse)
+    const sshManager = new SshManager();
+    const sshKey = await sshManager.ensureSshKey();
+    await this.injectSshKey(containerId, sshKey, resolved.remoteUser);
 
     // Update Local SSH Config
     const sshPort = this.detectForwardedPort(resolved.ports, 22) ?? '2222'; // Default fallback or error?
-    await sshManager.updateConfig(containerName, sshPort, resolved.remoteUser);
+    await sshManager.updateConfig(resolved.name, sshPort, resolved.remoteUser);
+
+    // Inject and start auto-stop monitor (if enabled)
+    await this.injectAutoStopScript(containerId, resolved.remoteUser);
+
+    await this.runPostCommands(containerId, resolved, {
+      runCreate: true,
+      runStart: true,
+      runAttach: true
+    }, { honorWaitFor: true });
+  }
+
+  private async applyComposeDevcontainer(resolved: ResolvedConfig, rebuild: boolean): Promise<string | undefined> {
+    const compose = resolved.compose;
+    if (!compose) {
+      return undefined;
+    }
+
+    const orchestrator = new ComposeOrchestrator(this.cli);
+    const project = await orchestrator.load(compose.files, compose.projectName);
+    const primary = project.services[compose.service];
+    if (!primary) {
+      throw new AppleContainerError(`Compose service "${compose.service}" referenced by devcontainer.json is not defined.`, ErrorCode.CommandFailed);
+    }
+
+    // The primary service container carries the devcontainer name so reuse, SSH and reopen work as for single containers.
+    primary.containerName = resolved.name;
+
+    const requested = compose.runServices ?? Object.keys(project.services);
+    const serviceNames = orchestrator.resolveStartOrder(project, Array.from(new Set([...requested, compose.service])));
+    logInfo(`Compose project ${project.name}: starting ${serviceNames.join(', ')} (primary: ${compose.service}).`);
 
-    // Inject and start auto-stop monitor
-    await this.injectAutoStopScript(created.id ?? containerName, resolved.remoteUser);
+    await orchestrator.build(project, serviceNames);
+    if (!primary.image) {
+      throw new AppleContainerError(`Compose service "${compose.service}" needs an image or a build section.`, ErrorCode.CommandFailed);
+    }
+
+    resolved.image = primary.image;
+    await this.executeFeatureBuild(resolved);
+    primary.image = resolved.image;
 
-    await this.runPostCommands(created.id ?? containerName, resolved, {
-      runCreate: Boolean(resolved.postCreateCommand),
-      runStart: Boolean(resolved.postStartCommand)
+    await orchestrator.up(project, serviceNames, {
+      recreate: rebuild,
+      overrides: {
+        [compose.service]: (options, service) => this.mergeComposeCreateOptions(options, service, resolved)
+      }
     });
 
-    void vscode.window.showInformationMessage(`Devcontainer ${containerName} is ready.`);
+    const container = await this.waitForContainer(resolved.name, 5_000);
+    if (!container) {
+      logWarn(`Container ${resolved.name} not visible after compose up; post commands will be skipped.`);
+      return undefined;
+    }
+
+    await this.provisionContainer(container.id ?? resolved.name, resolved);
+    return container.id;
+  }
+
+  private mergeComposeCreateOptions(
+    options: ContainerCreateOptions,
+    service: ComposeService,
+    resolved: ResolvedConfig
+  ): ContainerCreateOptions {
+    const devcontainerOptions = this.toCreateOptions(resolved);
+    const composeTargets = new Set((options.volumes ?? []).map(volume => volume.target));
+
+    return {
+      ...options,
+      image: resolved.image,
+      cpus: service.cpus ?? resolved.cpus,
+      memory: service.memory ?? resolved.memory,
+      ports: Array.from(new Set([...(options.ports ?? []), ...resolved.ports])),
+      volumes: [
+        ...(options.volumes ?? []),
+        ...resolved.volumes.filter(volume => !composeTargets.has(volume.target))
+      ],
+      labels: { ...options.labels, ...devcontainerOptions.labels },
+      additionalArgs: [...(options.additionalArgs ?? []), ...(devcontainerOptions.additionalArgs ?? [])],
+      command: resolved.overrideCommand ? devcontainerOptions.command : options.command
+    };
+  }
+
+  /**
+   * Aligns the remote user's UID/GID with the host user (updateRemoteUserUID) so files created in
+   * the bind-mounted workspace are owned correctly on both sides. No-op when the IDs already match.
+   */
+  private async updateRemoteUserUid(containerId: string, resolved: ResolvedConfig): Promise<void> {
+    const user = resolved.remoteUser ?? resolved.containerUser;
+    if (!resolved.updateRemoteUserUID || !user || user === 'root' || /^\d+(:\d+)?$/.test(user)) {
+      return;
+    }
+
+    const { uid, gid } = os.userInfo();
+    if (uid <= 0) {
+      return;
+    }
+
+    const target = `${user}:${uid}:${gid}`;
+    const applied = Array.from(this.appliedState.values()).find(entry => entry.containerId === containerId);
+    if ((this.remappedUsers.get(containerId) ?? applied?.remappedUser) === target) {
+      log(`UID/GID of ${user} in ${containerId} already aligned with the host.`);
+      return;
+    }
+
+    try {
+      const { stdout } = await this.cli.execInContainer(
+        containerId,
+        ['/bin/sh', '-c', USER_REMAP_SCRIPT, 'remap', user, String(uid), String(gid)],
+        { user: 'root', tty: false, interactive: false, timeout: 120_000 }
+      );
+      if (stdout?.trim()) {
+        logInfo(stdout.trim());
+      }
+      this.remappedUsers.set(containerId, target);
+    } catch (error) {
+      logWarn(`Failed to update UID/GID of ${user} in ${containerId}: ${toAppleContainerError(error).message}`);
+    }
   }
 
   private async injectSshKey(containerId: string, pubKey: string, user?: string): Promise<void> {
@@ -345,15 +693,16 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
       return;
     }
 
-    const resolved = this.resolveConfig(loaded.config, workspacePath);
-    if (!resolved.build) {
-      void vscode.window.showInformationMessage('Devcontainer configuration does not define a build section.');
+    const resolved = this.resolveConfig(loaded.config, workspacePath, loaded.path);
+    if (!resolved.build && Object.keys(resolved.features).length === 0) {
+      void vscode.window.showInformationMessage('Devcontainer configuration does not define a build section or features.');
       return;
     }
 
     logInfo(`Building devcontainer image from ${path.relative(workspacePath, loaded.path)}`);
+    await this.runInitializeCommand(resolved);
     await this.executeImageBuild(resolved);
-    this.appliedState.set(folder.uri.toString(), resolved);
+    await this.executeFeatureBuild(resolved);
     void vscode.window.showInformationMessage(`Devcontainer image ${resolved.image} built successfully.`);
   }
 
@@ -369,15 +718,17 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
       return;
     }
 
-    const container = await this.waitForContainer(resolved.name, 3_000);
+    const applied = this.appliedState.get(folder.uri.toString());
+    const container = await this.waitForContainer(applied?.containerId ?? resolved.name, 3_000);
     if (!container) {
       void vscode.window.showWarningMessage(`Container ${resolved.name} not found or not running.`);
       return;
     }
 
     await this.runPostCommands(container.id ?? resolved.name, resolved, {
-      runCreate: Boolean(resolved.postCreateCommand),
-      runStart: Boolean(resolved.postStartCommand)
+      runCreate: true,
+      runStart: true,
+      runAttach: true
     });
   }
 
@@ -393,13 +744,17 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
       return;
     }
 
-    const sshPort = this.detectForwardedPort(resolved.ports, 22);
+    const applied = this.appliedState.get(folder.uri.toString());
+    const sshPort = applied?.sshPort ?? this.detectForwardedPort(resolved.ports, 22);
     const messageLines = [
-      `Container: ${resolved.name}`,
+      `Container: ${resolved.name}${applied?.containerId ? ` (${applied.containerId})` : ''}`,
       `Remote user: ${resolved.remoteUser ?? 'default (root or container default)'}`,
       `Workspace folder: ${resolved.workspaceFolder}`,
       sshPort ? `Forwarded SSH port: ${sshPort}` : 'Configure port forwarding for SSH (22) in devcontainer.json.'
     ];
+    if (applied) {
+      messageLines.push(`Last applied: ${new Date(applied.appliedAt).toLocaleString()}`);
+    }
 
     const copyItem = 'Copy Instructions';
     const openSSHDocs = 'View Remote-SSH Guide';
@@ -414,56 +769,14 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
   }
 
   async reopenInContainer(): Promise<void> {
-    const folder = await this.pickWorkspaceFolder();
-    if (!folder) {
-      return;
-    }
-
-    const loaded = await this.loadConfig(folder.uri.fsPath);
-    if (!loaded) {
-      void vscode.window.showWarningMessage('No devcontainer configuration found.');
+    // Applying creates the container or reuses it, offering a rebuild when the config drifted.
+    const resolved = await this.applyDevcontainer();
+    if (!resolved) {
+      logInfo('Reopen in container cancelled because the devcontainer was not applied.');
       return;
     }
-
-    const resolved = this.resolveConfig(loaded.config, folder.uri.fsPath);
     const containerName = resolved.name;
 
-    // Check if container exists, if not create it
-    const existing = await this.findContainerByName(containerName);
-    if (!existing) {
-      await this.applyDevcontainer();
-    } else {
-      // Ensure it is running
-      // We can assume if it exists we might just need to start or restart it?
-      // For now, let's just make sure it's ready.
-      // Actually applyDevcontainer handles creation logic effectively.
-      // But if it exists and runs, applyDevcontainer RECREATES it (destroy & create).
-      // We likely want to just START it if stopped, or use it if running.
-      // For MVP, let's reuse applyDevcontainer to ensure fresh state, 
-      // OR we can implement a lighter "ensureRunning" 
-      // Let's rely on applyDevcontainer for now to guarantee state matches config.
-      // But wait, "Reopen" usually implies using the existing one if valid.
-
-      // Optimization: If running, just setup SSH and go.
-      // Let's assume we want to ensure provisioned.
-      // A safer bet for "Reopen" is to just ensure it is running and accessible.
-      // But if config changed, we might want to rebuild.
-      // Standard VS Code asks. We will just ensure it is running for now.
-
-      // Let's allow applyDevcontainer to handle the heavy lifting of "Make sure this config is applied".
-      // Ideally we check if up-to-date.
-      // For this iteration: Reuse applyDevcontainer (Destroy/Create) to be safe, 
-      // but maybe we should allow "Attach" behavior later.
-
-      // Actually, to make "reopen" fast, we shouldn't destroy if not needed.
-      // Let's try to start it if stopped.
-      // If running, good.
-    }
-
-    // We need to ensure the container is running and SSH is ready.
-    // Let's force a "refresh/apply" to ensuring everything is consistent.
-    await this.applyDevcontainer();
-
     // Now construct the SSH URI
     const sshHost = `acm-${containerName}`;
     const workdir = resolved.workspaceFolder;
@@ -482,24 +795,7 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
 
     logInfo(`Building image ${resolved.image} with ${resolved.build.tags.length} tag(s).`);
     try {
-      await this.cli.buildImage({
-        context: resolved.build.context,
-        dockerfile: resolved.build.dockerfile,
-        tags: resolved.build.tags,
-        buildArgs: resolved.build.args,
-        labels: resolved.build.labels,
-        target: resolved.build.target,
-        noCache: resolved.build.noCache,
-        platform: resolved.build.platform,
-        arch: resolved.build.arch,
-        os: resolved.build.os,
-        cpus: resolved.build.cpus,
-        memory: resolved.build.memory,
-        quiet: resolved.build.quiet,
-        progress: resolved.build.progress,
-        additionalOptions: resolved.build.additionalOptions,
-        cwd: resolved.workspacePath
-      });
+      await this.builds.run(resolved.name, this.toBuildOptions(resolved, resolved.build));
       logInfo(`Image build completed for ${resolved.image}`);
     } catch (error) {
       const containerError = toAppleContainerError(error);
@@ -508,108 +804,402 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
     }
   }
 
+  private toBuildOptions(resolved: ResolvedConfig, build: ResolvedBuildConfig): ContainerBuildOptions {
+    return {
+      context: build.context,
+      dockerfile: build.dockerfile,
+      tags: build.tags,
+      buildArgs: build.args,
+      labels: build.labels,
+      target: build.target,
+      noCache: build.noCache,
+      platform: build.platform,
+      arch: build.arch,
+      os: build.os,
+      cpus: build.cpus,
+      memory: build.memory,
+      quiet: build.quiet,
+      progress: build.progress,
+      additionalOptions: build.additionalOptions,
+      cwd: resolved.workspacePath
+    };
+  }
+
+  private async executeFeatureBuild(resolved: ResolvedConfig): Promise<void> {
+    if (Object.keys(resolved.features).length === 0) {
+      return;
+    }
+
+    const builder = new FeatureBuilder(this.resolveFeatureCacheDirectory());
+    const plan = await builder.prepare({
+      features: resolved.features,
+      baseImage: resolved.image,
+      configDirectory: resolved.configDirectory,
+      workspaceName: path.basename(resolved.workspacePath),
+      remoteUser: resolved.remoteUser,
+      containerUser: resolved.containerUser,
+      baseImageUser: await this.readImageUser(resolved.image, resolved.build?.arch ?? resolved.arch)
+    });
+    if (!plan) {
+      return;
+    }
+
+    logInfo(`Building feature image ${plan.image} on top of ${resolved.image}.`);
+    try {
+      await this.cli.buildImage({
+        context: plan.context,
+        dockerfile: plan.dockerfile,
+        tags: [plan.image],
+        platform: resolved.build?.platform,
+        arch: resolved.build?.arch ?? resolved.arch,
+        os: resolved.build?.os,
+        progress: resolved.build?.progress,
+        cwd: plan.context
+      });
+      logInfo(`Feature image build completed for ${plan.image}`);
+    } catch (error) {
+      const containerError = toAppleContainerError(error);
+      logError(`Feature image build failed for ${resolved.name}`, containerError);
+      throw new AppleContainerError(`Feature image build failed: ${containerError.message}`, ErrorCode.CommandFailed, containerError);
+    }
+
+    resolved.image = plan.image;
+  }
+
+  // The features Dockerfile switches to root, so the base image's own user has to be restored.
+  private async readImageUser(image: string, arch?: string): Promise<string | undefined> {
+    try {
+      const details = await this.cli.inspectImage(image);
+      const variant = details.variants.find(candidate => !arch || candidate.architecture === arch) ?? details.variants[0];
+      return variant?.user;
+    } catch (error) {
+      logWarn(`Unable to read the configured user of ${image}; features image keeps the container user: ${error}`);
+      return undefined;
+    }
+  }
+
+  private resolveFeatureCacheDirectory(): string | undefined {
+    const configured = vscode.workspace.getConfiguration('appleContainer').get<string>('features.cacheDirectory', '')?.trim();
+    if (!configured) {
+      return undefined;
+    }
+    return configured.startsWith('~') ? path.join(os.homedir(), configured.slice(1)) : configured;
+  }
+
   private async runPostCommands(
     containerId: string,
     resolved: ResolvedConfig,
-    stages: { runCreate: boolean; runStart: boolean }
+    stages: LifecycleStageSelection,
+    options: { honorWaitFor?: boolean } = {}
   ): Promise<void> {
-    if (stages.runCreate && resolved.postCreateCommand) {
-      // Check for marker file to prevent re-running postCreateCommand
-      const hasRun = await this.checkMarker(containerId, 'post-create-done', resolved.remoteUser);
-      if (!hasRun) {
-        await this.executeLifecycleCommand(containerId, 'postCreateCommand', resolved.postCreateCommand, resolved);
-        await this.createMarker(containerId, 'post-create-done', resolved.remoteUser);
-      } else {
-        logInfo(`Skipping postCreateCommand for ${containerId} (already run).`);
+    resolved = await this.resolveContainerVariables(containerId, resolved);
+
+    const pending = LIFECYCLE_STAGES.filter(stage => {
+      if (!resolved[stage]) {
+        return false;
+      }
+      if (stage === 'postStartCommand') {
+        return stages.runStart;
+      }
+      if (stage === 'postAttachCommand') {
+        return stages.runAttach;
+      }
+      return stages.runCreate;
+    });
+
+    // Stages after `waitFor` keep running in the background so the container can be handed over sooner.
+    const waitIndex = options.honorWaitFor
+      ? LIFECYCLE_STAGES.indexOf(resolved.waitFor as LifecycleStage)
+      : LIFECYCLE_STAGES.length - 1;
+    const blocking = pending.filter(stage => LIFECYCLE_STAGES.indexOf(stage) <= waitIndex);
+    const deferred = pending.filter(stage => LIFECYCLE_STAGES.indexOf(stage) > waitIndex);
+
+    for (const stage of blocking) {
+      await this.runLifecycleStage(containerId, stage, resolved);
+    }
+
+    if (deferred.length > 0) {
+      logInfo(`Continuing ${deferred.join(', ')} in the background (waitFor: ${resolved.waitFor}).`);
+      void (async () => {
+        for (const stage of deferred) {
+          await this.runLifecycleStage(containerId, stage, resolved);
+        }
+      })().catch(error => {
+        const containerError = toAppleContainerError(error);
+        void vscode.window.showErrorMessage(containerError.message);
+      });
+    }
+  }
+
+  private async runLifecycleStage(containerId: string, stage: LifecycleStage, resolved: ResolvedConfig): Promise<void> {
+    const command = resolved[stage];
+    if (!command) {
+      return;
+    }
+
+    const marker = STAGE_MARKERS[stage];
+    if (marker) {
+      // Check for marker file to prevent re-running create-time stages
+      const hasRun = await this.checkMarker(containerId, marker, resolved.remoteUser);
+      if (hasRun) {
+        logInfo(`Skipping ${stage} for ${containerId} (already run).`);
+        return;
       }
     }
 
-    if (stages.runStart && resolved.postStartCommand) {
-      await this.executeLifecycleCommand(containerId, 'postStartCommand', resolved.postStartCommand, resolved);
+    await this.executeLifecycleCommand(containerId, stage, command, resolved);
+
+    if (marker) {
+      await this.createMarker(containerId, marker, resolved.remoteUser);
     }
   }
 
   private async executeLifecycleCommand(
     containerId: string,
-    label: 'postCreateCommand' | 'postStartCommand',
+    label: LifecycleStage,
     command: DevcontainerCommand,
     resolved: ResolvedConfig
   ): Promise<void> {
-    const spec = this.prepareCommand(command);
-    const execOptions: ContainerExecOptions = {
-      user: resolved.remoteUser,
-      workdir: resolved.workspaceFolder,
-      env: resolved.containerEnv,
-      tty: false,
-      interactive: false
-    };
+    const steps = this.prepareCommands(command);
+    if (steps.length === 0) {
+      logInfo(`Skipping ${label}: no commands defined.`);
+      return;
+    }
 
-    logInfo(`Executing ${label} in container ${containerId}: ${spec.display} `);
-    try {
-      const { stdout, stderr } = await this.cli.execInContainer(containerId, spec.argv, execOptions);
-      if (stdout?.trim().length) {
-        log(stdout.trim());
-      }
-      if (stderr?.trim().length) {
-        logWarn(stderr.trim());
+    await this.lifecycleRunner.runStage({
+      containerId,
+      containerName: resolved.name,
+      stage: label,
+      steps,
+      options: {
+        user: resolved.remoteUser,
+        workdir: resolved.workspaceFolder,
+        env: await this.buildRemoteEnv(containerId, resolved)
       }
-    } catch (error) {
-      const containerError = toAppleContainerError(error);
-      logError(`Failed to execute ${label} for container ${resolved.name}`, containerError);
-      throw new AppleContainerError(`Failed to run ${label}: ${containerError.message} `, ErrorCode.CommandFailed, containerError);
+    });
+  }
+
+  async showLifecycleTranscripts(): Promise<void> {
+    const transcripts = await this.lifecycleRunner.listTranscripts();
+    if (transcripts.length === 0) {
+      void vscode.window.showInformationMessage('No lifecycle command transcripts have been recorded yet.');
+      return;
+    }
+
+    const selection = await vscode.window.showQuickPick(
+      transcripts.map(transcript => ({
+        label: transcript.stage,
+        description: transcript.containerName,
+        detail: transcript.startedAt.toLocaleString(),
+        transcript
+      })),
+      { title: 'Lifecycle Command Transcripts', placeHolder: 'Select a transcript to open' }
+    );
+    if (!selection) {
+      return;
     }
+
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(selection.transcript.path));
+    await vscode.window.showTextDocument(document, { preview: true });
   }
 
-  private prepareCommand(command: DevcontainerCommand): { argv: string[]; display: string } {
-    if (Array.isArray(command)) {
-      return {
-        argv: command,
-        display: command.join(' ')
-      };
+  /** Resolves the build args of the workspace's current devcontainer configuration for a build re-run. */
+  async resolveBuildArgs(workspacePath: string): Promise<Record<string, string> | undefined> {
+    const resolved = await this.resolveCurrentConfig(workspacePath, true);
+    if (!resolved?.build) {
+      logWarn(`No image build is configured for ${workspacePath}; build args cannot be resolved.`);
+      return undefined;
     }
+    return resolved.build.args;
+  }
 
-    const trimmed = command.trim();
-    if (!trimmed.length) {
-      return {
-        argv: ['/bin/sh', '-c', ''],
-        display: '(empty command)'
-      };
+  /**
+   * Exec options for running commands in a devcontainer the way lifecycle commands see it:
+   * remote user, workspace folder and the probed environment with `remoteEnv` applied.
+   * Returns undefined for containers that were not created from a devcontainer configuration.
+   */
+  async getRemoteExecOptions(container: { id: string; name?: string }): Promise<ContainerExecOptions | undefined> {
+    const applied = Array.from(this.appliedState.values()).find(entry =>
+      entry.containerId === container.id || entry.containerName === container.name || entry.containerName === container.id
+    );
+    if (!applied) {
+      return undefined;
     }
 
+    const resolved = await this.resolveContainerVariables(container.id, applied.config);
     return {
-      argv: ['/bin/sh', '-c', trimmed],
-      display: trimmed
+      user: resolved.remoteUser,
+      workdir: resolved.workspaceFolder,
+      env: await this.buildRemoteEnv(container.id, resolved)
     };
   }
 
-  private async waitForContainer(name: string, timeoutMs: number): Promise<{ id?: string } | undefined> {
-    const start = Date.now();
-    while (Date.now() - start < timeoutMs) {
-      const containers = await this.cli.listContainers();
-      const match = containers.find(container => container.name === name || container.id === name);
-      if (match) {
-        // Wait a bit after finding it to ensure state stabilizes, as requested by user
-        // Although this is inside a read loop, ensuring we don't return too fast after it appears might help.
-        // But user asked for delay after CLI ops.
-        // listContainers is the op. 
-        // Let's rely on the explicit delay I will add in applyDevcontainer.
-        return { id: match.id };
+  // Probed user environment, then containerEnv, then remoteEnv (where `null` drops a variable).
+  private async buildRemoteEnv(containerId: string, resolved: ResolvedConfig): Promise<Record<string, string>> {
+    const env: Record<string, string> = {
+      ...(await this.probeUserEnv(containerId, resolved)),
+      ...resolved.containerEnv
+    };
+    for (const [key, value] of Object.entries(resolved.remoteEnv ?? {})) {
+      if (value === null) {
+        delete env[key];
+      } else {
+        env[key] = value;
       }
-      await this.delay(500);
     }
-    return undefined;
+    return env;
   }
 
-  private async stopContainerIfRunning(id: string, name: string): Promise<void> {
-    try {
-      await this.cli.stopContainer(id);
-      logInfo(`Stopped container ${name} `);
-    } catch {
-      logWarn(`Failed to stop container ${name}; continuing with removal.`);
+  private async probeUserEnv(containerId: string, resolved: ResolvedConfig): Promise<Record<string, string>> {
+    const mode = resolved.userEnvProbe ?? 'loginInteractiveShell';
+    if (mode === 'none') {
+      return {};
     }
-  }
 
-  private async removeContainer(id: string, name: string): Promise<void> {
+    const cacheKey = `${containerId}|${resolved.remoteUser ?? ''}|${mode}`;
+    const cached = this.userEnvCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // Markers separate the environment from anything the user's rc files print.
+    const marker = `ACM_ENV_${Date.now()}`;
+    const script = [
+      'shell=$(getent passwd "$(id -un)" 2>/dev/null | cut -d: -f7)',
+      `exec "\${shell:-/bin/sh}" ${USER_ENV_PROBE_FLAGS[mode]} 'printf "%s" ${marker}; cat /proc/self/environ; printf "%s" ${marker}'`
+    ].join('; ');
+
+    const env: Record<string, string> = {};
+    try {
+      const { stdout } = await this.cli.execInContainer(containerId, ['/bin/sh', '-c', script], {
+        user: resolved.remoteUser,
+        tty: false,
+        interactive: false,
+        timeout: 15_000
+      });
+      const payload = stdout.split(marker)[1] ?? '';
+      for (const entry of payload.split('\0')) {
+        const eqIndex = entry.indexOf('=');
+        if (eqIndex > 0 && !PROBE_EXCLUDED_VARIABLES.has(entry.slice(0, eqIndex))) {
+          env[entry.slice(0, eqIndex)] = entry.slice(eqIndex + 1);
+        }
+      }
+      log(`Probed ${Object.keys(env).length} environment variable(s) for ${resolved.remoteUser ?? 'default user'} in ${containerId} (${mode}).`);
+    } catch (error) {
+      logWarn(`userEnvProbe (${mode}) failed in ${containerId}; continuing with containerEnv/remoteEnv only: ${toAppleContainerError(error).message}`);
+    }
+
+    this.userEnvCache.set(cacheKey, env);
+    return env;
+  }
+
+  private async runInitializeCommand(resolved: ResolvedConfig): Promise<void> {
+    if (!resolved.initializeCommand) {
+      return;
+    }
+
+    await this.runCommandSet('initializeCommand', this.prepareCommands(resolved.initializeCommand), async spec => {
+      const stepLabel = spec.name ? `initializeCommand (${spec.name})` : 'initializeCommand';
+      logInfo(`Executing ${stepLabel} on host: ${spec.display}`);
+      try {
+        const { stdout, stderr } = await execFileAsync(spec.argv[0], spec.argv.slice(1), {
+          cwd: resolved.workspacePath,
+          env: process.env,
+          maxBuffer: 10 * 1024 * 1024
+        });
+        if (stdout?.trim().length) {
+          log(stdout.trim());
+        }
+        if (stderr?.trim().length) {
+          logWarn(stderr.trim());
+        }
+      } catch (error) {
+        const err = error as Error & { stderr?: string };
+        const message = err.stderr?.trim() || err.message;
+        logError(`Failed to execute ${stepLabel} for ${resolved.name}`, error);
+        throw new AppleContainerError(`Failed to run ${stepLabel}: ${message}`, ErrorCode.CommandFailed, error);
+      }
+    });
+  }
+
+  // Object-form commands run their named entries in parallel; the stage fails if any entry fails.
+  private async runCommandSet(
+    label: string,
+    specs: PreparedCommand[],
+    runner: (spec: PreparedCommand) => Promise<void>
+  ): Promise<void> {
+    if (specs.length === 0) {
+      logInfo(`Skipping ${label}: no commands defined.`);
+      return;
+    }
+
+    const results = await Promise.allSettled(specs.map(spec => runner(spec)));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw toAppleContainerError(failure.reason);
+    }
+  }
+
+  private prepareCommands(command: DevcontainerCommand): PreparedCommand[] {
+    if (typeof command === 'string' || Array.isArray(command)) {
+      return [this.prepareCommand(command)];
+    }
+
+    return Object.entries(command)
+      .filter(([, value]) => typeof value === 'string' || Array.isArray(value))
+      .map(([name, value]) => ({ name, ...this.prepareCommand(value) }));
+  }
+
+  private prepareCommand(command: string | string[]): { argv: string[]; display: string } {
+    if (Array.isArray(command)) {
+      return {
+        argv: command,
+        display: command.join(' ')
+      };
+    }
+
+    const trimmed = command.trim();
+    if (!trimmed.length) {
+      return {
+        argv: ['/bin/sh', '-c', ''],
+        display: '(empty command)'
+      };
+    }
+
+    return {
+      argv: ['/bin/sh', '-c', trimmed],
+      display: trimmed
+    };
+  }
+
+  private async waitForContainer(name: string, timeoutMs: number): Promise<{ id?: string } | undefined> {
+    const start = Date.now();
+    while (Date.now() - start < timeoutMs) {
+      const containers = await this.cli.listContainers();
+      const match = containers.find(container => container.name === name || container.id === name);
+      if (match) {
+        // Wait a bit after finding it to ensure state stabilizes, as requested by user
+        // Although this is inside a read loop, ensuring we don't return too fast after it appears might help.
+        // But user asked for delay after CLI ops.
+        // listContainers is the op. 
+        // Let's rely on the explicit delay I will add in applyDevcontainer.
+        return { id: match.id };
+      }
+      await this.delay(500);
+    }
+    return undefined;
+  }
+
+  private async stopContainerIfRunning(id: string, name: string): Promise<void> {
+    try {
+      await this.cli.stopContainer(id);
+      logInfo(`Stopped container ${name} `);
+    } catch {
+      logWarn(`Failed to stop container ${name}; continuing with removal.`);
+    }
+  }
+
+  private async removeContainer(id: string, name: string): Promise<void> {
     try {
       await this.cli.removeContainer(id);
       logInfo(`Removed container ${name}`);
@@ -632,89 +1222,613 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
     const additionalArgs = [...resolved.additionalArgs];
     for (const [key, value] of Object.entries(resolved.containerEnv)) {
       if (typeof value === 'string') {
-        additionalArgs.push('--env', `${key}=${value} `);
+        additionalArgs.push('--env', `${key}=${value}`);
       }
     }
+    if (resolved.containerUser) {
+      additionalArgs.push('--user', resolved.containerUser);
+    }
 
     return {
       image: resolved.image,
       name: resolved.name,
+      arch: resolved.arch,
+      network: resolved.network,
       cpus: resolved.cpus,
       memory: resolved.memory,
       ports: resolved.ports,
       volumes: resolved.volumes,
+      labels: {
+        ...resolved.labels,
+        ...(resolved.configHash ? { [CONFIG_HASH_LABEL]: resolved.configHash } : {})
+      },
       additionalArgs,
-      command: ['sleep', 'infinity']
+      command: resolved.overrideCommand ? ['sleep', 'infinity'] : undefined
     };
   }
 
-  private async findContainerByName(name: string): Promise<{ id: string } | undefined> {
+  private async findContainerByName(name: string): Promise<{ id: string; labels?: Record<string, string> } | undefined> {
     const containers = await this.cli.listContainers();
     const match = containers.find(container => container.name === name || container.id === name);
     if (!match) {
       return undefined;
     }
-    return { id: match.id };
+    return { id: match.id, labels: match.labels };
+  }
+
+  // Flattened view of everything that is baked into the container at creation time.
+  private async createConfigSnapshot(resolved: ResolvedConfig): Promise<ConfigSnapshot> {
+    const values: Record<string, string> = {
+      image: resolved.image,
+      workspaceFolder: resolved.workspaceFolder,
+      remoteUser: resolved.remoteUser ?? '',
+      cpus: String(resolved.cpus ?? ''),
+      memory: resolved.memory ?? '',
+      ports: resolved.ports.join(', '),
+      mounts: resolved.volumes.map(volume => this.describeVolume(volume)).join(', '),
+      runArgs: resolved.additionalArgs.join(' '),
+      overrideCommand: String(resolved.overrideCommand)
+    };
+
+    if (resolved.containerUser) {
+      values.containerUser = resolved.containerUser;
+    }
+    if (resolved.arch) {
+      values.arch = resolved.arch;
+    }
+    if (resolved.network) {
+      values.network = resolved.network;
+    }
+    for (const [key, value] of Object.entries(resolved.labels ?? {})) {
+      values[`labels.${key}`] = value;
+    }
+
+    for (const [key, value] of Object.entries(resolved.containerEnv)) {
+      values[`containerEnv.${key}`] = value;
+    }
+
+    for (const [reference, value] of Object.entries(resolved.features)) {
+      values[`features.${reference}`] = JSON.stringify(value);
+    }
+
+    if (resolved.build) {
+      const dockerfile = resolved.build.dockerfile ?? path.join(resolved.build.context, 'Dockerfile');
+      values['build.dockerfile'] = await this.hashFile(dockerfile);
+      values['build.context'] = resolved.build.context;
+      values['build.target'] = resolved.build.target ?? '';
+      for (const [key, value] of Object.entries(resolved.build.args)) {
+        values[`build.args.${key}`] = value;
+      }
+    }
+
+    if (resolved.compose) {
+      values['compose.service'] = resolved.compose.service;
+      values['compose.runServices'] = (resolved.compose.runServices ?? []).join(', ');
+      for (const file of resolved.compose.files) {
+        values[`compose.file.${path.basename(file)}`] = await this.hashFile(file);
+      }
+    }
+
+    return createSnapshot(values);
+  }
+
+  private async hashFile(filePath: string): Promise<string> {
+    try {
+      const content = await fs.readFile(filePath);
+      return `sha256:${createHash('sha256').update(content).digest('hex').slice(0, 12)}`;
+    } catch {
+      return 'missing';
+    }
+  }
+
+  /**
+   * Compares the config hash label of an existing container with the current configuration.
+   * Returns undefined when the user dismisses the prompt.
+   */
+  private async checkConfigDrift(
+    resolved: ResolvedConfig,
+    snapshot: ConfigSnapshot,
+    options: { modal: boolean }
+  ): Promise<DriftDecision | undefined> {
+    const existing = await this.findContainerByName(resolved.name);
+    const createdHash = existing?.labels?.[CONFIG_HASH_LABEL];
+    if (!existing || !createdHash || createdHash === snapshot.hash) {
+      // Containers created before drift tracking carry no label; treat them as current.
+      return 'none';
+    }
+
+    const ignored = this.context.workspaceState.get<Record<string, string>>(IGNORED_DRIFT_KEY, {});
+    if (ignored[resolved.name] === snapshot.hash || this.acknowledgedDrift.get(resolved.name) === snapshot.hash) {
+      return 'none';
+    }
+
+    const previous = this.context.workspaceState.get<Record<string, ConfigSnapshot>>(SNAPSHOTS_KEY, {})[resolved.name];
+    const changes = previous?.hash === createdHash ? diffSnapshots(previous, snapshot) : [];
+    const summary = changes.length > 0
+      ? `${changes.length} setting(s) changed since it was created`
+      : 'the configuration changed since it was created';
+    logWarn(`Configuration drift detected for ${resolved.name}: ${changes.length > 0 ? changes.join('; ') : 'details unavailable'}`);
+
+    const message = options.modal
+      ? `Container ${resolved.name} is out of date: ${summary}.`
+      : `Container ${resolved.name} is out of date: ${changes.length > 0 ? changes.map(change => change.split(':')[0].slice(2)).join(', ') : summary}.`;
+    const detail = changes.length > 0
+      ? changes.join('\n')
+      : 'The previous configuration snapshot is not available, so the individual changes cannot be listed.';
+
+    const choice = options.modal
+      ? await vscode.window.showWarningMessage(message, { modal: true, detail }, 'Rebuild', 'Apply anyway', 'Ignore')
+      : await vscode.window.showWarningMessage(message, 'Rebuild', 'Apply anyway', 'Ignore');
+
+    switch (choice) {
+      case 'Rebuild':
+        return 'rebuild';
+      case 'Apply anyway':
+        this.acknowledgedDrift.set(resolved.name, snapshot.hash);
+        return 'apply';
+      case 'Ignore':
+        await this.context.workspaceState.update(IGNORED_DRIFT_KEY, { ...ignored, [resolved.name]: snapshot.hash });
+        return 'ignore';
+      default:
+        return undefined;
+    }
+  }
+
+  private async saveConfigSnapshot(containerName: string, snapshot: ConfigSnapshot): Promise<void> {
+    const snapshots = this.context.workspaceState.get<Record<string, ConfigSnapshot>>(SNAPSHOTS_KEY, {});
+    await this.context.workspaceState.update(SNAPSHOTS_KEY, { ...snapshots, [containerName]: snapshot });
+
+    const ignored = this.context.workspaceState.get<Record<string, string>>(IGNORED_DRIFT_KEY, {});
+    if (containerName in ignored) {
+      const remaining = { ...ignored };
+      delete remaining[containerName];
+      await this.context.workspaceState.update(IGNORED_DRIFT_KEY, remaining);
+    }
+    this.acknowledgedDrift.delete(containerName);
   }
 
+  /**
+   * The configuration the folder's container was created from while that container still exists;
+   * otherwise the configuration currently on disk.
+   */
   private async getResolvedConfig(folder: vscode.WorkspaceFolder): Promise<ResolvedConfig | undefined> {
-    const cached = this.appliedState.get(folder.uri.toString());
-    if (cached) {
-      return cached;
+    const applied = this.appliedState.get(folder.uri.toString());
+    const container = applied ? await this.findContainerByName(applied.containerId ?? applied.containerName) : undefined;
+    if (!applied || !container || (applied.containerId && container.id !== applied.containerId)) {
+      return this.resolveCurrentConfig(folder.uri.fsPath, true);
     }
 
-    const loaded = await this.loadConfig(folder.uri.fsPath);
+    try {
+      const current = await this.resolveCurrentConfig(folder.uri.fsPath);
+      if (current && applied.configHash && current.configHash !== applied.configHash) {
+        void vscode.window.showWarningMessage(
+          `The devcontainer configuration of ${applied.containerName} changed since it was applied. Apply it again to update the container.`
+        );
+      }
+    } catch (error) {
+      logWarn(`Unable to compare ${applied.containerName} with the current devcontainer configuration: ${toAppleContainerError(error).message}`);
+    }
+    return applied.config;
+  }
+
+  private async resolveCurrentConfig(workspacePath: string, interactive = false): Promise<ResolvedConfig | undefined> {
+    const loaded = await this.loadConfig(workspacePath, { interactive });
     if (!loaded) {
       return undefined;
     }
 
-    const resolved = this.resolveConfig(loaded.config, folder.uri.fsPath);
-    this.appliedState.set(folder.uri.toString(), resolved);
+    const resolved = this.resolveConfig(loaded.config, workspacePath, loaded.path);
+    resolved.configHash = (await this.createConfigSnapshot(resolved)).hash;
     return resolved;
   }
 
-  private async loadConfig(workspacePath: string): Promise<LoadedConfig | undefined> {
-    const candidatePaths = [
-      path.join(workspacePath, '.appcontainer', 'devcontainer.json'),
-      path.join(workspacePath, '.appcontainer.json')
-    ];
+  private async recordAppliedState(
+    folder: vscode.WorkspaceFolder,
+    resolved: ResolvedConfig,
+    containerId: string | undefined,
+    created: boolean
+  ): Promise<void> {
+    const key = folder.uri.toString();
+    const previous = this.appliedState.get(key);
+    const now = new Date().toISOString();
+
+    this.appliedState.set(key, {
+      version: APPLIED_STATE_VERSION,
+      containerName: resolved.name,
+      config: this.redactBuildArgs(resolved),
+      configHash: resolved.configHash,
+      containerId,
+      sshPort: this.detectForwardedPort(resolved.ports, 22),
+      remappedUser: containerId
+        ? this.remappedUsers.get(containerId) ?? (previous?.containerId === containerId ? previous.remappedUser : undefined)
+        : undefined,
+      createdAt: created ? now : previous?.createdAt,
+      appliedAt: now
+    });
+    await this.persistAppliedState();
+  }
 
-    for (const candidate of candidatePaths) {
-      try {
-        const content = await fs.readFile(candidate, 'utf8');
-        const config = this.parseConfig(content);
-        if (config) {
-          return { config, path: candidate };
-        }
-      } catch (error) {
-        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-          logWarn(`Failed to read devcontainer configuration at ${candidate} `);
-        }
+  // Build args may carry secrets and are only needed while building, so they are not persisted.
+  private redactBuildArgs(resolved: ResolvedConfig): ResolvedConfig {
+    if (!resolved.build) {
+      return resolved;
+    }
+    const args = Object.fromEntries(Object.keys(resolved.build.args).map(key => [key, '***']));
+    return { ...resolved, build: { ...resolved.build, args } };
+  }
+
+  private async persistAppliedState(): Promise<void> {
+    await this.context.workspaceState.update(APPLIED_STATE_KEY, Object.fromEntries(this.appliedState));
+  }
+
+  /**
+   * Drops persisted entries whose container no longer exists and refreshes container ids
+   * for containers that were recreated outside the extension.
+   */
+  async reconcileAppliedState(): Promise<void> {
+    if (this.appliedState.size === 0) {
+      return;
+    }
+
+    const containers = await this.cli.listContainers();
+    let changed = false;
+
+    for (const [key, applied] of this.appliedState) {
+      const byId = applied.containerId ? containers.find(container => container.id === applied.containerId) : undefined;
+      const match = byId ?? containers.find(container => container.name === applied.containerName);
+      if (!match) {
+        log(`Devcontainer ${applied.containerName} no longer exists; forgetting its applied state.`);
+        this.appliedState.delete(key);
+        changed = true;
+      } else if (match.id !== applied.containerId) {
+        log(`Devcontainer ${applied.containerName} now runs as ${match.id}; updating applied state.`);
+        this.appliedState.set(key, { ...applied, containerId: match.id });
+        changed = true;
       }
     }
 
-    return undefined;
+    if (changed) {
+      await this.persistAppliedState();
+    }
+  }
+
+  /**
+   * Loads the devcontainer configuration for a workspace. When several configurations exist the
+   * user picks one (remembered per workspace); non-interactive callers get the remembered or first one.
+   */
+  private async loadConfig(workspacePath: string, options: { interactive?: boolean } = {}): Promise<LoadedConfig | undefined> {
+    const candidate = await this.selectConfigPath(workspacePath, options.interactive ?? true);
+    if (!candidate) {
+      return undefined;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(candidate, 'utf8');
+    } catch (error) {
+      logWarn(`Failed to read devcontainer configuration at ${candidate}: ${error}`);
+      return undefined;
+    }
+
+    const config = this.parseConfig(content, candidate);
+    if (!config) {
+      throw new AppleContainerError(
+        `${path.relative(workspacePath, candidate)} contains errors. See the Problems panel for details.`,
+        ErrorCode.CommandFailed
+      );
+    }
+
+    const merged = await this.resolveExtends(config, candidate, workspacePath, [candidate]);
+    return { config: merged.config, path: candidate, chain: merged.chain };
   }
 
-  private parseConfig(content: string): DevcontainerConfig | undefined {
-    const sanitized = this.stripJsonComments(content);
+  private async resolveExtends(
+    config: DevcontainerConfig,
+    configPath: string,
+    workspacePath: string,
+    visited: string[]
+  ): Promise<{ config: DevcontainerConfig; chain: string[] }> {
+    if (!config.extends?.trim()) {
+      return { config, chain: [configPath] };
+    }
+
+    const parentPath = path.resolve(path.dirname(configPath), config.extends.trim());
+    const describe = (file: string): string => path.relative(workspacePath, file);
+    if (visited.includes(parentPath)) {
+      throw new AppleContainerError(
+        `Circular "extends" in devcontainer configuration: ${[...visited, parentPath].map(describe).join(' → ')}`,
+        ErrorCode.CommandFailed
+      );
+    }
+    if (visited.length > MAX_EXTENDS_DEPTH) {
+      throw new AppleContainerError(`Devcontainer "extends" chain is deeper than ${MAX_EXTENDS_DEPTH} files.`, ErrorCode.CommandFailed);
+    }
+
+    let content: string;
     try {
-      const parsed = JSON.parse(sanitized) as DevcontainerConfig;
-      return parsed;
+      content = await fs.readFile(parentPath, 'utf8');
     } catch (error) {
-      logError('Failed to parse devcontainer configuration', error);
+      throw new AppleContainerError(`${describe(configPath)} extends ${describe(parentPath)}, which could not be read.`, ErrorCode.CommandFailed, error);
+    }
+
+    const parentConfig = this.parseConfig(content, parentPath);
+    if (!parentConfig) {
+      throw new AppleContainerError(`${describe(parentPath)} contains errors. See the Problems panel for details.`, ErrorCode.CommandFailed);
+    }
+
+    const parent = await this.resolveExtends(parentConfig, parentPath, workspacePath, [...visited, parentPath]);
+    const rebasedParent = path.dirname(parentPath) === path.dirname(configPath)
+      ? parent.config
+      : rebaseConfigPaths(parent.config as Record<string, unknown>, path.dirname(parentPath)) as DevcontainerConfig;
+
+    return {
+      config: mergeConfigs(rebasedParent as Record<string, unknown>, config as Record<string, unknown>) as DevcontainerConfig,
+      chain: [...parent.chain, configPath]
+    };
+  }
+
+  /**
+   * Opens a read-only preview of what apply would do: the resolved configuration and the exact
+   * `container build` / `container run` arguments, plus warnings for runArgs passed through unparsed.
+   */
+  async showResolvedConfiguration(): Promise<void> {
+    const folder = await this.pickWorkspaceFolder();
+    if (!folder) {
+      return;
+    }
+
+    const loaded = await this.loadConfig(folder.uri.fsPath);
+    if (!loaded) {
+      void vscode.window.showWarningMessage('No devcontainer configuration found in this workspace.');
+      return;
+    }
+
+    const resolved = this.resolveConfig(loaded.config, folder.uri.fsPath, loaded.path);
+    resolved.configHash = (await this.createConfigSnapshot(resolved)).hash;
+
+    const warnings = [...resolved.runArgWarnings];
+    if (Object.keys(resolved.features).length > 0) {
+      warnings.push('Features are layered into a derived `acm/<workspace>-features:<hash>` image at apply time; `container run` then uses that image instead of the one shown below.');
+    }
+    if (resolved.compose) {
+      warnings.push(`Compose services are created by the compose orchestrator; the \`container run\` preview covers the devcontainer settings for the primary service \`${resolved.compose.service}\` only.`);
+    }
+
+    const executable = this.cli.executable;
+    const lines: string[] = [
+      `# Resolved devcontainer: ${resolved.name}`,
+      '',
+      `Configuration: ${loaded.chain.map(file => `\`${path.relative(folder.uri.fsPath, file)}\``).join(' → ')}`,
+      '',
+      '## Warnings',
+      '',
+      ...(warnings.length > 0 ? warnings.map(warning => `- ${warning}`) : ['None.']),
+      ''
+    ];
+
+    const appendCommand = (title: string, args: string[]): void => {
+      lines.push(
+        `## ${title}`,
+        '',
+        '```sh',
+        [executable, ...args].map(arg => this.quoteShellArg(arg)).join(' \\\n  '),
+        '```',
+        '',
+        '```json',
+        JSON.stringify([executable, ...args], null, 2),
+        '```',
+        ''
+      );
+    };
+
+    if (resolved.build) {
+      appendCommand('container build', this.cli.buildImageArgs(this.toBuildOptions(resolved, resolved.build)));
+    }
+    if (resolved.image) {
+      appendCommand('container run', this.cli.buildCreateArgs(this.toCreateOptions(resolved)));
+    }
+
+    lines.push('## Resolved configuration', '', '```json', JSON.stringify(resolved, null, 2), '```', '');
+
+    await this.documentProvider.show(`${folder.name}/resolved-devcontainer.md`, lines.join('\n'), 'markdown');
+  }
+
+  private quoteShellArg(value: string): string {
+    return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+
+  async showEffectiveConfiguration(): Promise<void> {
+    const folder = await this.pickWorkspaceFolder();
+    if (!folder) {
+      return;
+    }
+
+    const loaded = await this.loadConfig(folder.uri.fsPath);
+    if (!loaded) {
+      void vscode.window.showWarningMessage('No devcontainer configuration found in this workspace.');
+      return;
+    }
+
+    const header = [
+      '// Effective devcontainer configuration (read-only).',
+      '// Merged from, in order of precedence (last wins):',
+      ...loaded.chain.map((file, index) => `//   ${index + 1}. ${path.relative(folder.uri.fsPath, file)}`),
+      ''
+    ];
+    await this.documentProvider.show(
+      `${folder.name}/effective-devcontainer.json`,
+      `${header.join('\n')}${JSON.stringify(loaded.config, null, 2)}\n`,
+      'jsonc'
+    );
+  }
+
+  private async selectConfigPath(workspacePath: string, interactive: boolean): Promise<string | undefined> {
+    const candidates = await this.discoverConfigs(workspacePath);
+    if (candidates.length <= 1) {
+      return candidates[0];
+    }
+
+    const remembered = this.context.workspaceState.get<Record<string, string>>(SELECTED_CONFIG_KEY, {})[workspacePath];
+    const rememberedPath = remembered ? path.join(workspacePath, remembered) : undefined;
+    if (rememberedPath && candidates.includes(rememberedPath)) {
+      return rememberedPath;
+    }
+
+    if (!interactive) {
+      return candidates[0];
+    }
+
+    return this.pickConfig(workspacePath, candidates);
+  }
+
+  private async pickConfig(workspacePath: string, candidates: string[]): Promise<string | undefined> {
+    const items = await Promise.all(candidates.map(async candidate => {
+      let name: string | undefined;
+      try {
+        name = parseDevcontainerConfig<DevcontainerConfig>(await fs.readFile(candidate, 'utf8')).config?.name;
+      } catch {
+        // Unreadable files are still listed; loading reports the problem.
+      }
+      return { label: path.relative(workspacePath, candidate), description: name, candidate };
+    }));
+
+    const selection = await vscode.window.showQuickPick(items, {
+      title: 'Select Devcontainer Configuration',
+      placeHolder: `Several devcontainer configurations found in ${path.basename(workspacePath)}`
+    });
+    if (!selection) {
       return undefined;
     }
+
+    const selections = this.context.workspaceState.get<Record<string, string>>(SELECTED_CONFIG_KEY, {});
+    await this.context.workspaceState.update(SELECTED_CONFIG_KEY, {
+      ...selections,
+      [workspacePath]: path.relative(workspacePath, selection.candidate)
+    });
+    logInfo(`Using devcontainer configuration ${selection.label} for ${path.basename(workspacePath)}.`);
+    return selection.candidate;
+  }
+
+  async selectConfiguration(): Promise<void> {
+    const folder = await this.pickWorkspaceFolder();
+    if (!folder) {
+      return;
+    }
+
+    const candidates = await this.discoverConfigs(folder.uri.fsPath);
+    if (candidates.length === 0) {
+      void vscode.window.showWarningMessage('No devcontainer configuration found in this workspace.');
+      return;
+    }
+
+    const selected = await this.pickConfig(folder.uri.fsPath, candidates);
+    if (selected) {
+      this.appliedState.delete(folder.uri.toString());
+      await this.persistAppliedState();
+      void vscode.window.showInformationMessage(`Devcontainer configuration set to ${path.relative(folder.uri.fsPath, selected)}.`);
+    }
+  }
+
+  // Standard locations first, then the Apple-specific ones this extension introduced. Configs
+  // that another candidate `extends` are left out: the overlay is the one meant to be applied.
+  private async discoverConfigs(workspacePath: string): Promise<string[]> {
+    const candidates: string[] = [];
+    const addIfExists = async (candidate: string): Promise<void> => {
+      try {
+        const stat = await fs.stat(candidate);
+        if (stat.isFile()) {
+          candidates.push(candidate);
+        }
+      } catch {
+        // not present
+      }
+    };
+
+    for (const directory of CONFIG_DIRECTORIES) {
+      const root = path.join(workspacePath, directory);
+      await addIfExists(path.join(root, 'devcontainer.json'));
+      await addIfExists(path.join(workspacePath, `${directory}.json`));
+
+      let entries: Dirent[] = [];
+      try {
+        entries = await fs.readdir(root, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      for (const entry of entries.filter(item => item.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+        await addIfExists(path.join(root, entry.name, 'devcontainer.json'));
+      }
+    }
+
+    return this.dropExtendedConfigs(candidates);
+  }
+
+  // `.appcontainer/devcontainer.json` and `.appcontainer.json` were the only locations before standard discovery.
+  private isLegacyConfigLocation(workspacePath: string, configPath: string): boolean {
+    return configPath === path.join(workspacePath, '.appcontainer.json')
+      || configPath === path.join(workspacePath, '.appcontainer', 'devcontainer.json');
+  }
+
+  private async dropExtendedConfigs(candidates: string[]): Promise<string[]> {
+    const extended = new Set<string>();
+    for (const candidate of candidates) {
+      try {
+        const parent = parseDevcontainerConfig<DevcontainerConfig>(await fs.readFile(candidate, 'utf8')).config?.extends?.trim();
+        if (parent) {
+          extended.add(path.resolve(path.dirname(candidate), parent));
+        }
+      } catch {
+        // Unreadable files are still listed; loading reports the problem.
+      }
+    }
+    return candidates.filter(candidate => !extended.has(candidate));
+  }
+
+  private parseConfig(content: string, filePath: string): DevcontainerConfig | undefined {
+    const result = parseDevcontainerConfig<DevcontainerConfig>(content);
+    this.publishDiagnostics(filePath, content, result.issues);
+
+    for (const issue of result.issues) {
+      const position = offsetToPosition(content, issue.offset);
+      const message = `${path.basename(filePath)}:${position.line + 1}:${position.character + 1} ${issue.message}`;
+      if (issue.severity === 'error') {
+        logError('Failed to parse devcontainer configuration', message);
+      } else {
+        logWarn(message);
+      }
+    }
+
+    return result.config;
+  }
+
+  private publishDiagnostics(filePath: string, content: string, issues: ConfigIssue[]): void {
+    const diagnostics = issues.map(issue => {
+      const start = offsetToPosition(content, issue.offset);
+      const end = offsetToPosition(content, issue.offset + issue.length);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(start.line, start.character, end.line, end.character),
+        issue.message,
+        issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'Apple Container';
+      return diagnostic;
+    });
+    this.diagnostics.set(vscode.Uri.file(filePath), diagnostics);
+  }
+
+  private isConfigFile(filePath: string): boolean {
+    return ['devcontainer.json', '.devcontainer.json', '.appcontainer.json'].includes(path.basename(filePath));
   }
 
-  private resolveConfig(config: DevcontainerConfig, workspacePath: string): ResolvedConfig {
+  private resolveConfig(config: DevcontainerConfig, workspacePath: string, configPath: string): ResolvedConfig {
     const workspaceBasename = path.basename(workspacePath);
-    const defaultWorkspaceFolder = `/ workspaces / ${workspaceBasename} `;
+    const defaultWorkspaceFolder = `/workspaces/${workspaceBasename}`;
 
     const defaultContext: VariableContext = {
       workspaceFolder: workspacePath,
       workspaceBasename,
       containerWorkspaceFolder: defaultWorkspaceFolder,
+      devcontainerId: this.computeDevcontainerId(workspacePath, configPath),
       env: process.env
     };
 
@@ -725,18 +1839,35 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
       containerWorkspaceFolder: workspaceFolder
     };
 
-    const runArgsResult = this.parseRunArgs(config.runArgs ?? []);
+    const runArgsResult = parseRunArgs(
+      (config.runArgs ?? []).map(arg => this.resolveVariables(arg, variableContext)),
+      workspacePath,
+      spec => this.parseMount(spec, variableContext)
+    );
+    for (const warning of runArgsResult.warnings) {
+      logWarn(`runArgs: ${warning}`);
+    }
+    if (runArgsResult.rejected.length > 0 && vscode.workspace.getConfiguration('appleContainer').get<boolean>('devcontainer.strictRunArgs', false)) {
+      throw new AppleContainerError(
+        `runArgs contains flags the Apple container CLI does not support: ${runArgsResult.rejected.join(', ')}. Remove them or disable appleContainer.devcontainer.strictRunArgs.`,
+        ErrorCode.CommandFailed
+      );
+    }
 
     const fallbackImage = this.generateImageTag(workspaceBasename);
     const imageCandidate = config.image ? this.resolveVariables(config.image, variableContext) : undefined;
     const build = config.build
-      ? this.resolveBuild(config.build, variableContext, workspacePath, imageCandidate ?? fallbackImage)
+      ? this.resolveBuild(config.build, variableContext, {
+        configDirectory: path.dirname(configPath),
+        legacyWorkspacePath: this.isLegacyConfigLocation(workspacePath, configPath) ? workspacePath : undefined
+      }, imageCandidate ?? fallbackImage)
       : undefined;
 
     const resolvedImage = imageCandidate ?? build?.tags[0] ?? '';
+    const compose = this.resolveCompose(config, configPath, workspaceBasename);
 
-    if (!resolvedImage) {
-      throw new AppleContainerError('devcontainer.json must provide either an "image" or a build definition.', ErrorCode.CommandFailed);
+    if (!resolvedImage && !compose) {
+      throw new AppleContainerError('devcontainer.json must provide either an "image", a build definition, or a "dockerComposeFile".', ErrorCode.CommandFailed);
     }
 
     if (build && !build.tags.includes(resolvedImage)) {
@@ -750,29 +1881,93 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
     const hostReqCpus = config.hostRequirements?.cpus;
     const hostReqMemory = config.hostRequirements?.memory;
 
-    const finalCpus = runArgsResult.cpus ?? hostReqCpus ?? defaultCpus;
-    const finalMemory = runArgsResult.memory ?? hostReqMemory ?? defaultMemory;
+    const apple = config.customizations?.appleContainer;
+    if (build && apple?.arch && !build.arch && !build.platform) {
+      build.arch = apple.arch;
+    }
+    const appleCpus = apple?.cpus !== undefined ? Number.parseFloat(String(apple.cpus)) : undefined;
+
+    const finalCpus = (appleCpus !== undefined && !Number.isNaN(appleCpus) ? appleCpus : undefined) ?? runArgsResult.cpus ?? hostReqCpus ?? defaultCpus;
+    const finalMemory = apple?.memory ?? runArgsResult.memory ?? hostReqMemory ?? defaultMemory;
 
     const resolved: ResolvedConfig = {
-      name: this.resolveName(config.name, workspaceBasename),
+      // The container name doubles as its DNS name, so an Apple-specific dnsName takes precedence.
+      name: this.resolveName(apple?.dnsName ?? runArgsResult.name ?? config.name, workspaceBasename),
+      arch: apple?.arch ?? runArgsResult.arch,
+      network: apple?.network ?? runArgsResult.network,
+      labels: runArgsResult.labels,
       image: resolvedImage,
-      remoteUser: config.remoteUser ?? runArgsResult.user,
+      // remoteUser defaults to containerUser, as in the devcontainer specification.
+      remoteUser: config.remoteUser ?? config.containerUser ?? runArgsResult.user,
+      containerUser: config.containerUser ?? runArgsResult.user,
+      updateRemoteUserUID: config.updateRemoteUserUID ?? true,
       workspaceFolder,
       workspacePath,
-      ports: this.resolvePorts(config.forwardPorts),
-      volumes: this.resolveVolumes(config.mounts, variableContext, workspacePath, workspaceFolder),
+      ports: Array.from(new Set([...this.resolvePorts(config.forwardPorts), ...runArgsResult.ports])),
+      volumes: this.mergeVolumes(
+        this.resolveVolumes(config.mounts, variableContext, workspacePath, workspaceFolder),
+        runArgsResult.volumes
+      ),
       cpus: finalCpus,
       memory: finalMemory,
       additionalArgs: runArgsResult.additional,
-      containerEnv: this.resolveEnv(config.containerEnv ?? {}, variableContext),
-      postCreateCommand: config.postCreateCommand,
-      postStartCommand: config.postStartCommand,
+      runArgWarnings: runArgsResult.warnings,
+      containerEnv: { ...runArgsResult.env, ...this.resolveEnv(config.containerEnv ?? {}, variableContext) },
+      remoteEnv: this.resolveRemoteEnv(config.remoteEnv ?? {}, variableContext),
+      userEnvProbe: config.userEnvProbe ?? 'loginInteractiveShell',
+      devcontainerId: variableContext.devcontainerId,
+      // initializeCommand runs on the host, where no container environment exists.
+      initializeCommand: this.substituteCommand(config.initializeCommand, { ...variableContext, containerEnv: {} }),
+      onCreateCommand: this.substituteCommand(config.onCreateCommand, variableContext),
+      updateContentCommand: this.substituteCommand(config.updateContentCommand, variableContext),
+      postCreateCommand: this.substituteCommand(config.postCreateCommand, variableContext),
+      postStartCommand: this.substituteCommand(config.postStartCommand, variableContext),
+      postAttachCommand: this.substituteCommand(config.postAttachCommand, variableContext),
+      waitFor: this.resolveWaitFor(config.waitFor),
+      configDirectory: path.dirname(configPath),
+      features: config.features ?? {},
+      compose,
+      // Compose services keep their own command unless overrideCommand is set, matching the devcontainer spec.
+      overrideCommand: config.overrideCommand ?? !compose,
       build
     };
 
     return resolved;
   }
 
+  private resolveCompose(config: DevcontainerConfig, configPath: string, workspaceBasename: string): ResolvedComposeConfig | undefined {
+    if (!config.dockerComposeFile) {
+      return undefined;
+    }
+
+    if (!config.service?.trim()) {
+      throw new AppleContainerError('devcontainer.json with "dockerComposeFile" must also specify a "service".', ErrorCode.CommandFailed);
+    }
+
+    const configDirectory = path.dirname(configPath);
+    const files = (Array.isArray(config.dockerComposeFile) ? config.dockerComposeFile : [config.dockerComposeFile])
+      .filter(file => typeof file === 'string' && file.trim().length > 0)
+      .map(file => path.resolve(configDirectory, file.trim()));
+
+    return {
+      files,
+      service: config.service.trim(),
+      runServices: Array.isArray(config.runServices) ? config.runServices : undefined,
+      projectName: config.name?.trim() || `${workspaceBasename}_devcontainer`
+    };
+  }
+
+  private resolveWaitFor(waitFor: string | undefined): WaitForStage {
+    if (!waitFor) {
+      return 'updateContentCommand';
+    }
+    if (waitFor === 'initializeCommand' || (LIFECYCLE_STAGES as string[]).includes(waitFor)) {
+      return waitFor as WaitForStage;
+    }
+    logWarn(`Ignoring unknown waitFor value "${waitFor}"; defaulting to updateContentCommand.`);
+    return 'updateContentCommand';
+  }
+
   private resolveName(name: string | undefined, basename: string): string {
     if (name?.trim()) {
       return name.trim();
@@ -783,20 +1978,24 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
   private resolveBuild(
     build: DevcontainerBuildConfig,
     context: VariableContext,
-    workspacePath: string,
+    paths: { configDirectory: string; legacyWorkspacePath?: string },
     fallbackImage: string
   ): ResolvedBuildConfig {
+    // As in the devcontainer specification, `context` and `dockerfile` are relative to the config file.
+    // Configs in the original `.appcontainer` locations keep resolving `context` against the workspace
+    // and `dockerfile` against the context.
+    const { configDirectory, legacyWorkspacePath } = paths;
     const contextValue = build.context ? this.resolveVariables(build.context, context) : '.';
     const contextPath = path.isAbsolute(contextValue)
       ? contextValue
-      : path.resolve(workspacePath, contextValue);
+      : path.resolve(legacyWorkspacePath ?? configDirectory, contextValue);
 
     let dockerfilePath: string | undefined;
     if (build.dockerfile) {
       const dockerfileValue = this.resolveVariables(build.dockerfile, context);
       dockerfilePath = path.isAbsolute(dockerfileValue)
         ? dockerfileValue
-        : path.resolve(contextPath, dockerfileValue);
+        : path.resolve(legacyWorkspacePath ? contextPath : configDirectory, dockerfileValue);
     }
 
     const args = this.resolveEnv(build.args ?? {}, context);
@@ -908,7 +2107,7 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
   }
 
   private resolveVolumes(
-    mounts: string[] | undefined,
+    mounts: Array<string | DevcontainerMount> | undefined,
     context: VariableContext,
     workspacePath: string,
     workspaceFolder: string
@@ -928,7 +2127,7 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
         continue;
       }
 
-      if (parsed.target === workspaceFolder && parsed.source === workspacePath) {
+      if ((parsed.type ?? 'bind') === 'bind' && parsed.target === workspaceFolder && parsed.source === workspacePath) {
         continue;
       }
 
@@ -938,12 +2137,34 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
     return volumes;
   }
 
-  private parseMount(entry: string, context: VariableContext): ResolvedConfig['volumes'][number] | undefined {
-    if (!entry?.trim()) {
+  // Later entries replace earlier ones with the same target.
+  private mergeVolumes(base: ResolvedConfig['volumes'], extra: ResolvedConfig['volumes']): ResolvedConfig['volumes'] {
+    const targets = new Set(extra.map(volume => volume.target));
+    return [...base.filter(volume => !targets.has(volume.target)), ...extra];
+  }
+
+  // Bind mounts keep the legacy `source:target[:ro]` form so existing config snapshots stay stable.
+  private describeVolume(volume: VolumeMapping): string {
+    const type = volume.type ?? 'bind';
+    const spec = type === 'tmpfs' ? volume.target : `${volume.source}:${volume.target}${volume.readOnly ? ':ro' : ''}`;
+    return type === 'bind' ? spec : `${type}=${spec}`;
+  }
+
+  private parseMount(entry: string | DevcontainerMount, context: VariableContext): VolumeMapping | undefined {
+    if (typeof entry === 'object' && entry !== null) {
+      return this.toVolumeMapping(
+        entry.type,
+        entry.source !== undefined ? this.resolveVariables(String(entry.source), context) : undefined,
+        entry.target !== undefined ? this.resolveVariables(String(entry.target), context) : undefined,
+        entry.readonly === true
+      );
+    }
+    if (typeof entry !== 'string' || !entry.trim()) {
       return undefined;
     }
 
     const segments = entry.split(',').map(segment => segment.trim()).filter(Boolean);
+    let type: string | undefined;
     let source: string | undefined;
     let target: string | undefined;
     let readOnly = false;
@@ -968,6 +2189,9 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
 
       const resolvedValue = this.resolveVariables(value, context);
       switch (key) {
+        case 'type':
+          type = resolvedValue;
+          break;
         case 'source':
         case 'src':
           source = resolvedValue;
@@ -979,18 +2203,38 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
           break;
         case 'readonly':
         case 'ro':
-          readOnly = value === 'true' || value === '1';
+          readOnly = value === '' || value === 'true' || value === '1';
           break;
         default:
           break;
       }
     }
 
-    if (!source || !target) {
+    return this.toVolumeMapping(type, source, target, readOnly);
+  }
+
+  private toVolumeMapping(
+    rawType: string | undefined,
+    source: string | undefined,
+    target: string | undefined,
+    readOnly: boolean
+  ): VolumeMapping | undefined {
+    const type = (rawType ?? 'bind') as MountType;
+    if (!MOUNT_TYPES.includes(type)) {
+      logWarn(`Skipping mount with unsupported type "${rawType}"`);
+      return undefined;
+    }
+    if (!target) {
       return undefined;
     }
 
-    return { source, target, readOnly };
+    if (type === 'tmpfs') {
+      return { type, source: '', target, readOnly };
+    }
+    if (!source) {
+      return undefined;
+    }
+    return { type, source, target, readOnly };
   }
 
   private resolveEnv(env: Record<string, string>, context: VariableContext): Record<string, string> {
@@ -1004,132 +2248,123 @@ nohup ${scriptPath} ${timeout} 22 >/dev/null 2>&1 &
     return resolved;
   }
 
-  private parseRunArgs(runArgs: string[]): RunArgsParseResult {
-    const result: RunArgsParseResult = { additional: [] };
-
-    const takeValue = (arg: string, next: string | undefined): { value?: string; consumedCount: number } => {
-      const eqIndex = arg.indexOf('=');
-      if (eqIndex > -1) {
-        return { value: arg.slice(eqIndex + 1), consumedCount: 0 };
+  private resolveVariables(value: string, context: VariableContext): string {
+    const pattern = /\$\{([^}]+)\}/g;
+    return value.replace(pattern, (match: string, token: string) => {
+      const trimmed = token.trim();
+      switch (trimmed) {
+        case 'localWorkspaceFolder':
+          return context.workspaceFolder;
+        case 'localWorkspaceFolderBasename':
+          return context.workspaceBasename;
+        case 'containerWorkspaceFolder':
+          return context.containerWorkspaceFolder;
+        case 'containerWorkspaceFolderBasename':
+          return path.posix.basename(context.containerWorkspaceFolder);
+        case 'devcontainerId':
+          return context.devcontainerId;
       }
-      if (next !== undefined) {
-        return { value: next, consumedCount: 1 };
+
+      // Anything else, such as the shell's `${HOME}` or `${VAR:-default}`, is left for the shell.
+      const separator = trimmed.indexOf(':');
+      if (separator === -1) {
+        return match;
       }
-      return { consumedCount: 0 };
-    };
 
-    for (let index = 0; index < runArgs.length; index += 1) {
-      const arg = runArgs[index];
-      const next = runArgs[index + 1];
-      switch (arg) {
-        case '--cpus': {
-          const { value, consumedCount } = takeValue(arg, next);
-          if (value !== undefined) {
-            const parsed = Number.parseFloat(value);
-            if (!Number.isNaN(parsed)) {
-              result.cpus = parsed;
-              index += consumedCount;
-              continue;
-            }
-          }
-          break;
-        }
-        case '--memory': {
-          const { value, consumedCount } = takeValue(arg, next);
-          if (value) {
-            result.memory = value;
-            index += consumedCount;
-            continue;
-          }
-          break;
-        }
-        case '--user':
-        case '-u': {
-          const { value, consumedCount } = takeValue(arg, next);
-          if (value) {
-            result.user = value;
-            index += consumedCount;
-            continue;
-          }
-          break;
-        }
-        case '--workdir':
-        case '--cwd':
-        case '-w': {
-          const { value, consumedCount } = takeValue(arg, next);
-          if (value) {
-            result.workdir = value;
-            index += consumedCount;
-            continue;
-          }
-          break;
-        }
-        default: {
-          if (arg.startsWith('--cpus=') || arg.startsWith('--memory=') || arg.startsWith('--user=') || arg.startsWith('--workdir=') || arg.startsWith('--cwd=')) {
-            // handled via takeValue logic but fall-through ensures no duplicates
-            const { value } = takeValue(arg, next);
-            if (arg.startsWith('--cpus=') && value !== undefined) {
-              const parsed = Number.parseFloat(value);
-              if (!Number.isNaN(parsed)) {
-                result.cpus = parsed;
-                continue;
-              }
-            }
-            if (arg.startsWith('--memory=') && value) {
-              result.memory = value;
-              continue;
-            }
-            if (arg.startsWith('--user=') && value) {
-              result.user = value;
-              continue;
-            }
-            if ((arg.startsWith('--workdir=') || arg.startsWith('--cwd=')) && value) {
-              result.workdir = value;
-              continue;
-            }
-          }
-          result.additional.push(arg);
-          break;
+      // `${localEnv:NAME:default}` - everything after the second colon is the default value.
+      const scope = trimmed.slice(0, separator);
+      const rest = trimmed.slice(separator + 1);
+      const defaultSeparator = rest.indexOf(':');
+      const name = defaultSeparator === -1 ? rest : rest.slice(0, defaultSeparator);
+      const fallback = defaultSeparator === -1 ? '' : rest.slice(defaultSeparator + 1);
+
+      if (scope === 'localEnv') {
+        return context.env[name] ?? fallback;
+      }
+      if (scope === 'containerEnv') {
+        if (!context.containerEnv) {
+          return match;
         }
+        return context.containerEnv[name] ?? fallback;
       }
-    }
 
-    if (result.workdir) {
-      result.additional.push('--workdir', result.workdir);
-    }
+      return match;
+    });
+  }
 
-    if (result.user) {
-      result.additional.push('--user', result.user);
+  private substituteCommand(command: DevcontainerCommand | undefined, context: VariableContext): DevcontainerCommand | undefined {
+    if (command === undefined) {
+      return undefined;
+    }
+    if (typeof command === 'string') {
+      return this.resolveVariables(command, context);
+    }
+    if (Array.isArray(command)) {
+      return command.map(part => this.resolveVariables(part, context));
     }
 
-    return result;
+    const resolved: Record<string, string | string[]> = {};
+    for (const [name, value] of Object.entries(command)) {
+      resolved[name] = Array.isArray(value)
+        ? value.map(part => this.resolveVariables(part, context))
+        : this.resolveVariables(value, context);
+    }
+    return resolved;
   }
 
-  private resolveVariables(value: string, context: VariableContext): string {
-    const pattern = /\$\{([^}]+)\}/g;
-    return value.replace(pattern, (_, token: string) => {
-      const trimmed = token.trim();
-      if (trimmed === 'localWorkspaceFolder') {
-        return context.workspaceFolder;
-      }
-      if (trimmed === 'localWorkspaceFolderBasename') {
-        return context.workspaceBasename;
-      }
-      if (trimmed === 'containerWorkspaceFolder') {
-        return context.containerWorkspaceFolder;
-      }
-      if (trimmed.startsWith('localEnv:')) {
-        const key = trimmed.slice('localEnv:'.length);
-        return context.env[key] ?? '';
+  // `null` removes a variable from the remote environment, so it is preserved rather than substituted.
+  private resolveRemoteEnv(env: Record<string, string | null>, context: VariableContext): Record<string, string | null> {
+    const resolved: Record<string, string | null> = {};
+    for (const [key, value] of Object.entries(env)) {
+      if (!key.trim()) {
+        continue;
       }
-      return '';
+      resolved[key.trim()] = value === null ? null : this.resolveVariables(value, context);
+    }
+    return resolved;
+  }
+
+  // Stable across rebuilds: derived from the workspace folder and config file, like the reference implementation.
+  private computeDevcontainerId(workspacePath: string, configPath: string): string {
+    const labels = JSON.stringify({
+      'devcontainer.config_file': configPath,
+      'devcontainer.local_folder': workspacePath
     });
+    const digest = createHash('sha256').update(labels).digest('hex');
+    return BigInt(`0x${digest}`).toString(32).padStart(52, '0');
   }
 
-  private stripJsonComments(content: string): string {
-    return content
-      .replace(/\/\*[\s\S]*?\*\//g, '')
-      .replace(/^\s*\/\/.*$/gm, '');
+  /**
+   * Second substitution pass once the container exists: resolves `${containerEnv:...}`
+   * in lifecycle commands and remoteEnv using the container's real environment.
+   */
+  private async resolveContainerVariables(containerId: string, resolved: ResolvedConfig): Promise<ResolvedConfig> {
+    let containerEnv: Record<string, string> = {};
+    try {
+      containerEnv = await this.cli.getContainerEnvironment(containerId);
+    } catch (error) {
+      logWarn(`Could not read the environment of ${containerId}; \${containerEnv:...} variables resolve to their defaults (${error})`);
+    }
+
+    const context: VariableContext = {
+      workspaceFolder: resolved.workspacePath,
+      workspaceBasename: path.basename(resolved.workspacePath),
+      containerWorkspaceFolder: resolved.workspaceFolder,
+      devcontainerId: resolved.devcontainerId,
+      env: process.env,
+      containerEnv
+    };
+
+    const stageCommands: Partial<Record<LifecycleStage, DevcontainerCommand>> = {};
+    for (const stage of LIFECYCLE_STAGES) {
+      stageCommands[stage] = this.substituteCommand(resolved[stage], context);
+    }
+
+    return {
+      ...resolved,
+      ...stageCommands,
+      remoteEnv: this.resolveRemoteEnv(resolved.remoteEnv ?? {}, context)
+    };
   }
 
   private async pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
@@ -0,0 +1,273 @@
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+import { AppleContainerError, ErrorCode } from '../core/errors';
+import { log, logInfo, logWarn } from '../core/logger';
+
+const execFileAsync = promisify(execFile);
+
+export type FeatureOptionValue = string | number | boolean;
+
+// `true` installs with defaults, a string selects the `version` option, an object sets options explicitly.
+export type FeatureReference = boolean | string | Record<string, FeatureOptionValue>;
+
+export interface FeatureBuildRequest {
+  features: Record<string, FeatureReference>;
+  baseImage: string;
+  configDirectory: string;
+  workspaceName: string;
+  remoteUser?: string;
+  containerUser?: string;
+  // `Config.User` of the base image, restored after the features are installed as root.
+  baseImageUser?: string;
+}
+
+export interface FeatureBuildPlan {
+  image: string;
+  context: string;
+  dockerfile: string;
+  features: ResolvedFeature[];
+}
+
+export interface ResolvedFeature {
+  id: string;
+  reference: string;
+  directory: string;
+  options: Record<string, string>;
+  installsAfter: string[];
+  containerEnv: Record<string, string>;
+}
+
+interface FeatureMetadata {
+  id?: string;
+  version?: string;
+  options?: Record<string, { type?: string; default?: FeatureOptionValue }>;
+  installsAfter?: string[];
+  containerEnv?: Record<string, string>;
+}
+
+const ARCHIVE_EXTENSIONS = ['.tgz', '.tar.gz', '.tar'];
+
+export class FeatureBuilder {
+  constructor(private readonly cacheDirectory: string = path.join(os.homedir(), '.appcontainer', 'features')) { }
+
+  async prepare(request: FeatureBuildRequest): Promise<FeatureBuildPlan | undefined> {
+    const entries = Object.entries(request.features ?? {}).filter(([, value]) => value !== false);
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    const fingerprint = createHash('sha256')
+      .update(JSON.stringify({ base: request.baseImage, features: entries, user: request.remoteUser ?? null }))
+      .digest('hex')
+      .slice(0, 12);
+
+    const context = path.join(os.tmpdir(), 'acm-features', fingerprint);
+    await fs.rm(context, { recursive: true, force: true });
+    await fs.mkdir(path.join(context, 'features'), { recursive: true });
+
+    const features: ResolvedFeature[] = [];
+    for (const [index, [reference, value]] of entries.entries()) {
+      const directory = path.join(context, 'features', `${index}-${this.slugify(reference)}`);
+      await this.stageFeature(reference, request.configDirectory, directory);
+      features.push(await this.resolveFeature(reference, value, directory));
+    }
+
+    const ordered = this.orderFeatures(features);
+    for (const feature of ordered) {
+      await fs.writeFile(
+        path.join(feature.directory, 'devcontainer-features.env'),
+        this.buildEnvFile(feature, request),
+        'utf8'
+      );
+    }
+
+    const dockerfile = path.join(context, 'Dockerfile');
+    await fs.writeFile(dockerfile, this.buildDockerfile(ordered, request, context), 'utf8');
+
+    const image = `acm/${this.slugify(request.workspaceName)}-features:${fingerprint}`;
+    logInfo(`Prepared ${ordered.length} feature(s) for ${image}: ${ordered.map(feature => feature.id).join(', ')}`);
+    return { image, context, dockerfile, features: ordered };
+  }
+
+  private async stageFeature(reference: string, configDirectory: string, destination: string): Promise<void> {
+    const source = this.isLocalReference(reference)
+      ? path.resolve(configDirectory, reference)
+      : await this.findCachedFeature(reference);
+
+    if (!source) {
+      throw new AppleContainerError(
+        `Feature ${reference} is not available locally. Place it in ${this.cacheDirectory} as a folder or tarball.`,
+        ErrorCode.CommandFailed
+      );
+    }
+
+    const stat = await fs.stat(source).catch(() => undefined);
+    if (!stat) {
+      throw new AppleContainerError(`Feature ${reference} not found at ${source}`, ErrorCode.CommandFailed);
+    }
+
+    if (stat.isDirectory()) {
+      await fs.cp(source, destination, { recursive: true });
+    } else {
+      await fs.mkdir(destination, { recursive: true });
+      log(`Extracting feature archive ${source}`);
+      await execFileAsync('tar', ['-xf', source, '-C', destination]);
+    }
+
+    try {
+      await fs.access(path.join(destination, 'install.sh'));
+    } catch {
+      throw new AppleContainerError(`Feature ${reference} does not contain an install.sh script`, ErrorCode.CommandFailed);
+    }
+  }
+
+  private async findCachedFeature(reference: string): Promise<string | undefined> {
+    const withoutVersion = reference.replace(/(@sha256:[a-f0-9]+|:[^/:]+)$/i, '');
+    const names = Array.from(new Set([this.slugify(reference), this.slugify(withoutVersion)]));
+
+    for (const name of names) {
+      const candidates = [name, ...ARCHIVE_EXTENSIONS.map(extension => `${name}${extension}`)];
+      for (const candidate of candidates) {
+        const fullPath = path.join(this.cacheDirectory, candidate);
+        try {
+          await fs.access(fullPath);
+          log(`Resolved feature ${reference} from cache: ${fullPath}`);
+          return fullPath;
+        } catch {
+          // try next candidate
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private async resolveFeature(reference: string, value: FeatureReference, directory: string): Promise<ResolvedFeature> {
+    let metadata: FeatureMetadata = {};
+    try {
+      const content = await fs.readFile(path.join(directory, 'devcontainer-feature.json'), 'utf8');
+      metadata = JSON.parse(content) as FeatureMetadata;
+    } catch (error) {
+      logWarn(`Feature ${reference} has no readable devcontainer-feature.json; installing without option defaults (${error})`);
+    }
+
+    const userOptions: Record<string, FeatureOptionValue> = typeof value === 'string'
+      ? { version: value }
+      : typeof value === 'object' && value !== null ? value : {};
+
+    const options: Record<string, string> = {};
+    for (const [name, definition] of Object.entries(metadata.options ?? {})) {
+      if (definition?.default !== undefined) {
+        options[name] = String(definition.default);
+      }
+    }
+    for (const [name, optionValue] of Object.entries(userOptions)) {
+      options[name] = String(optionValue);
+    }
+
+    return {
+      id: metadata.id ?? this.baseId(reference),
+      reference,
+      directory,
+      options,
+      installsAfter: metadata.installsAfter ?? [],
+      containerEnv: metadata.containerEnv ?? {}
+    };
+  }
+
+  // Soft ordering: `installsAfter` only constrains features that are part of this build.
+  private orderFeatures(features: ResolvedFeature[]): ResolvedFeature[] {
+    const matches = (feature: ResolvedFeature, id: string): boolean => {
+      const normalized = this.baseId(id);
+      return feature.id === normalized || this.baseId(feature.reference) === normalized;
+    };
+
+    const remaining = [...features];
+    const ordered: ResolvedFeature[] = [];
+
+    while (remaining.length > 0) {
+      const nextIndex = remaining.findIndex(candidate =>
+        candidate.installsAfter.every(dependency => !remaining.some(other => other !== candidate && matches(other, dependency)))
+      );
+
+      if (nextIndex === -1) {
+        logWarn(`Circular installsAfter detected between ${remaining.map(feature => feature.id).join(', ')}; using declaration order.`);
+        ordered.push(...remaining);
+        break;
+      }
+
+      ordered.push(remaining[nextIndex]);
+      remaining.splice(nextIndex, 1);
+    }
+
+    return ordered;
+  }
+
+  private buildEnvFile(feature: ResolvedFeature, request: FeatureBuildRequest): string {
+    const lines: string[] = [];
+    for (const [name, value] of Object.entries(feature.options)) {
+      lines.push(`${this.toEnvName(name)}="${this.escapeEnvValue(value)}"`);
+    }
+    lines.push(`_REMOTE_USER="${this.escapeEnvValue(request.remoteUser ?? 'root')}"`);
+    lines.push(`_CONTAINER_USER="${this.escapeEnvValue(request.containerUser ?? request.remoteUser ?? 'root')}"`);
+    return `${lines.join('\n')}\n`;
+  }
+
+  private buildDockerfile(features: ResolvedFeature[], request: FeatureBuildRequest, context: string): string {
+    const lines = [
+      `FROM ${request.baseImage}`,
+      'USER root'
+    ];
+
+    for (const feature of features) {
+      const relative = path.relative(context, feature.directory).split(path.sep).join('/');
+      const target = `/tmp/acm-features/${path.basename(feature.directory)}`;
+      lines.push('');
+      lines.push(`# ${feature.reference}`);
+      lines.push(`COPY ${relative} ${target}`);
+      lines.push(`RUN cd ${target} && chmod +x ./install.sh && set -a && . ./devcontainer-features.env && set +a && ./install.sh`);
+      for (const [key, value] of Object.entries(feature.containerEnv)) {
+        lines.push(`ENV ${key}=${JSON.stringify(value)}`);
+      }
+    }
+
+    lines.push('');
+    lines.push('RUN rm -rf /tmp/acm-features');
+    const finalUser = request.baseImageUser ?? request.containerUser;
+    if (finalUser) {
+      lines.push(`USER ${finalUser}`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private isLocalReference(reference: string): boolean {
+    return reference.startsWith('./') || reference.startsWith('../') || path.isAbsolute(reference);
+  }
+
+  private baseId(reference: string): string {
+    const withoutVersion = reference.replace(/(@sha256:[a-f0-9]+|:[^/:]+)$/i, '');
+    return withoutVersion.split('/').pop() ?? withoutVersion;
+  }
+
+  private toEnvName(name: string): string {
+    return name.replace(/[^\w_]/g, '_').replace(/^[\d_]+/g, '_').toUpperCase();
+  }
+
+  private escapeEnvValue(value: string): string {
+    return value.replace(/(["\\$`])/g, '\\$1');
+  }
+
+  private slugify(value: string): string {
+    const slug = value
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]+/g, '-')
+      .replace(/^[-.]+|[-.]+$/g, '');
+    return slug.length > 0 ? slug : 'feature';
+  }
+}
@@ -0,0 +1,294 @@
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+import { promises as fs } from 'node:fs';
+
+import { ContainerCli, ContainerExecStreamOptions } from '../cli/containerCli';
+import { AppleContainerError, ErrorCode } from '../core/errors';
+import { logError, logInfo } from '../core/logger';
+
+export interface LifecycleStep {
+  name?: string;
+  argv: string[];
+  display: string;
+}
+
+export interface LifecycleStageRun {
+  containerId: string;
+  containerName: string;
+  stage: string;
+  steps: LifecycleStep[];
+  options: ContainerExecStreamOptions;
+}
+
+export interface LifecycleTranscript {
+  path: string;
+  containerName: string;
+  stage: string;
+  startedAt: Date;
+}
+
+// Transcripts are kept for the most recent stage runs across all containers.
+const TRANSCRIPT_LIMIT = 30;
+
+const BOLD = '\x1b[1m';
+const RED = '\x1b[31m';
+const GREEN = '\x1b[32m';
+const YELLOW = '\x1b[33m';
+const RESET = '\x1b[0m';
+
+// Pseudoterminal for a single lifecycle stage; output written before VS Code opens it is buffered.
+class StageTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeEmitter = new vscode.EventEmitter<number | void>();
+  private readonly pending: string[] = [];
+  private opened = false;
+  private finished = false;
+
+  readonly onDidWrite = this.writeEmitter.event;
+  readonly onDidClose = this.closeEmitter.event;
+
+  constructor(private readonly onUserClose: () => void) { }
+
+  open(): void {
+    this.opened = true;
+    for (const text of this.pending.splice(0)) {
+      this.writeEmitter.fire(text);
+    }
+  }
+
+  close(): void {
+    if (!this.finished) {
+      this.onUserClose();
+    }
+    this.dispose();
+  }
+
+  handleInput(): void {
+    if (this.finished) {
+      this.closeEmitter.fire();
+    }
+  }
+
+  write(text: string): void {
+    const normalized = text.replace(/\r?\n/g, '\r\n');
+    if (this.opened) {
+      this.writeEmitter.fire(normalized);
+    } else {
+      this.pending.push(normalized);
+    }
+  }
+
+  finish(): void {
+    this.finished = true;
+    this.write('\nPress any key to close this terminal.\n');
+  }
+
+  dispose(): void {
+    this.writeEmitter.dispose();
+    this.closeEmitter.dispose();
+  }
+}
+
+/**
+ * Runs devcontainer lifecycle stages through `container exec`, streaming output into a
+ * terminal per stage. Stages can be cancelled from the progress notification or by closing
+ * the terminal, and every run is saved as a transcript under the extension's storage.
+ */
+export class LifecycleRunner {
+  constructor(
+    private readonly cli: ContainerCli,
+    private readonly transcriptDirectory: string
+  ) { }
+
+  async runStage(run: LifecycleStageRun): Promise<void> {
+    const startedAt = new Date();
+    const cancellation = new vscode.CancellationTokenSource();
+    const transcript: string[] = [
+      `# ${run.stage} in ${run.containerName} (${run.containerId})`,
+      `# started ${startedAt.toISOString()}`,
+      ''
+    ];
+
+    const pty = new StageTerminal(() => cancellation.cancel());
+    const terminal = vscode.window.createTerminal({ name: `${run.containerName}: ${run.stage}`, pty });
+    terminal.show(true);
+
+    const write = (text: string, colored?: string): void => {
+      transcript.push(text);
+      pty.write(colored ?? text);
+    };
+
+    let failures: Error[] = [];
+    try {
+      await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `${run.containerName}: running ${run.stage}`,
+        cancellable: true
+      }, async (_progress, token) => {
+        const subscription = token.onCancellationRequested(() => cancellation.cancel());
+        try {
+          const results = await Promise.allSettled(run.steps.map(step => this.runStep(run, step, write, cancellation.token)));
+          failures = results
+            .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+            .map(result => result.reason as Error);
+        } finally {
+          subscription.dispose();
+        }
+      });
+    } finally {
+      const status = cancellation.token.isCancellationRequested
+        ? 'cancelled'
+        : failures.length > 0 ? 'failed' : 'completed';
+      write(`\n# ${status} after ${this.formatDuration(Date.now() - startedAt.getTime())}\n`);
+      pty.finish();
+      cancellation.dispose();
+      await this.saveTranscript(run, startedAt, transcript.join(''));
+    }
+
+    if (failures.length > 0) {
+      throw failures[0];
+    }
+  }
+
+  async listTranscripts(): Promise<LifecycleTranscript[]> {
+    const transcripts: LifecycleTranscript[] = [];
+    let containers: string[];
+    try {
+      containers = await fs.readdir(this.transcriptDirectory);
+    } catch {
+      return transcripts;
+    }
+
+    for (const containerName of containers) {
+      const directory = path.join(this.transcriptDirectory, containerName);
+      const files = await fs.readdir(directory).catch(() => [] as string[]);
+      for (const file of files) {
+        const match = /^(\d+)-(.+)\.log$/.exec(file);
+        if (match) {
+          transcripts.push({
+            path: path.join(directory, file),
+            containerName,
+            stage: match[2],
+            startedAt: new Date(Number(match[1]))
+          });
+        }
+      }
+    }
+
+    return transcripts.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  private runStep(
+    run: LifecycleStageRun,
+    step: LifecycleStep,
+    write: (text: string, colored?: string) => void,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const label = step.name ? `${run.stage} (${step.name})` : run.stage;
+    const prefix = step.name ? `[${step.name}] ` : '';
+    const started = Date.now();
+
+    return new Promise<void>((resolve, reject) => {
+      if (token.isCancellationRequested) {
+        reject(new AppleContainerError(`${label} was cancelled`, ErrorCode.CommandFailed));
+        return;
+      }
+
+      write(`${prefix}$ ${step.display}\n`, `${BOLD}${prefix}$ ${step.display}${RESET}\n`);
+      logInfo(`Executing ${label} in container ${run.containerId}: ${step.display}`);
+
+      const child = this.cli.spawnInContainer(run.containerId, step.argv, run.options);
+      let cancelled = false;
+      const subscription = token.onCancellationRequested(() => {
+        cancelled = true;
+        child.kill('SIGTERM');
+      });
+
+      // Named steps run in parallel, so their output is prefixed line by line.
+      const partial = { stdout: '', stderr: '' };
+      const forward = (stream: 'stdout' | 'stderr', chunk: string): void => {
+        if (!prefix) {
+          write(chunk);
+          return;
+        }
+        const lines = (partial[stream] + chunk).split(/\r?\n/);
+        partial[stream] = lines.pop() ?? '';
+        for (const line of lines) {
+          write(`${prefix}${line}\n`);
+        }
+      };
+
+      child.stdout.setEncoding('utf8');
+      child.stderr.setEncoding('utf8');
+      child.stdout.on('data', (chunk: string) => forward('stdout', chunk));
+      child.stderr.on('data', (chunk: string) => forward('stderr', chunk));
+
+      child.once('error', error => {
+        subscription.dispose();
+        reject(new AppleContainerError(`Failed to run ${label}: ${error.message}`, ErrorCode.CommandFailed, error));
+      });
+
+      child.once('close', code => {
+        subscription.dispose();
+        for (const stream of ['stdout', 'stderr'] as const) {
+          if (partial[stream]) {
+            write(`${prefix}${partial[stream]}\n`);
+          }
+        }
+
+        const duration = this.formatDuration(Date.now() - started);
+        if (cancelled) {
+          write(`\n${prefix}cancelled after ${duration}\n`, `\n${YELLOW}${prefix}cancelled after ${duration}${RESET}\n`);
+          reject(new AppleContainerError(`${label} was cancelled`, ErrorCode.CommandFailed));
+          return;
+        }
+
+        if (code === 0) {
+          write(`\n${prefix}exited with code 0 (${duration})\n`, `\n${GREEN}${prefix}exited with code 0 (${duration})${RESET}\n`);
+          resolve();
+          return;
+        }
+
+        write(`\n${prefix}exited with code ${code} (${duration})\n`, `\n${RED}${prefix}exited with code ${code} (${duration})${RESET}\n`);
+        const error = new AppleContainerError(`Failed to run ${label}: exited with code ${code}`, ErrorCode.CommandFailed);
+        logError(`Failed to execute ${label} for container ${run.containerName}`, error);
+        reject(error);
+      });
+    });
+  }
+
+  private async saveTranscript(run: LifecycleStageRun, startedAt: Date, content: string): Promise<void> {
+    const directory = path.join(this.transcriptDirectory, run.containerName.replace(/[^\w.-]+/g, '-'));
+    const file = path.join(directory, `${startedAt.getTime()}-${run.stage}.log`);
+    try {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(file, content, 'utf8');
+      logInfo(`Saved ${run.stage} transcript to ${file}`);
+    } catch (error) {
+      logError(`Failed to save ${run.stage} transcript`, error);
+    }
+    await this.pruneTranscripts();
+  }
+
+  // Deletes transcripts beyond the newest TRANSCRIPT_LIMIT and container folders left empty.
+  private async pruneTranscripts(): Promise<void> {
+    const stale = (await this.listTranscripts()).slice(TRANSCRIPT_LIMIT);
+    await Promise.all(stale.map(transcript => fs.rm(transcript.path, { force: true }).catch(() => undefined)));
+
+    const directories = new Set(stale.map(transcript => path.dirname(transcript.path)));
+    for (const directory of directories) {
+      const remaining = await fs.readdir(directory).catch(() => undefined);
+      if (remaining?.length === 0) {
+        await fs.rmdir(directory).catch(() => undefined);
+      }
+    }
+  }
+
+  private formatDuration(milliseconds: number): string {
+    const seconds = milliseconds / 1000;
+    if (seconds < 60) {
+      return `${seconds.toFixed(1)}s`;
+    }
+    return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+  }
+}
@@ -0,0 +1,300 @@
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+import { VolumeMapping } from '../cli/containerCli';
+
+export interface RunArgsParseResult {
+  cpus?: number;
+  memory?: string;
+  user?: string;
+  workdir?: string;
+  name?: string;
+  network?: string;
+  arch?: string;
+  env: Record<string, string>;
+  labels: Record<string, string>;
+  ports: string[];
+  volumes: VolumeMapping[];
+  // Arguments passed to `container run` as-is.
+  additional: string[];
+  warnings: string[];
+  // Flags that were dropped as unsupported; strict mode refuses to continue when this is not empty.
+  // Unknown flags are passed through in `additional` instead.
+  rejected: string[];
+}
+
+type RunArgKind =
+  | 'cpus'
+  | 'memory'
+  | 'user'
+  | 'workdir'
+  | 'env'
+  | 'envFile'
+  | 'volume'
+  | 'mount'
+  | 'tmpfs'
+  | 'publish'
+  | 'name'
+  | 'label'
+  | 'network'
+  | 'platform'
+  | 'arch'
+  | 'passthrough'
+  | 'unsupported';
+
+interface RunArgRule {
+  kind: RunArgKind;
+  takesValue: boolean;
+  note?: string;
+}
+
+// Docker-style `runArgs` flags and how they map onto the Apple container CLI.
+const RUN_ARG_RULES: Record<string, RunArgRule> = {
+  '--cpus': { kind: 'cpus', takesValue: true },
+  '--memory': { kind: 'memory', takesValue: true },
+  '-m': { kind: 'memory', takesValue: true },
+  '--user': { kind: 'user', takesValue: true },
+  '-u': { kind: 'user', takesValue: true },
+  '--workdir': { kind: 'workdir', takesValue: true },
+  '--cwd': { kind: 'workdir', takesValue: true },
+  '-w': { kind: 'workdir', takesValue: true },
+  '--env': { kind: 'env', takesValue: true },
+  '-e': { kind: 'env', takesValue: true },
+  '--env-file': { kind: 'envFile', takesValue: true },
+  '--volume': { kind: 'volume', takesValue: true },
+  '-v': { kind: 'volume', takesValue: true },
+  '--mount': { kind: 'mount', takesValue: true },
+  '--publish': { kind: 'publish', takesValue: true },
+  '-p': { kind: 'publish', takesValue: true },
+  '--name': { kind: 'name', takesValue: true },
+  '--label': { kind: 'label', takesValue: true },
+  '-l': { kind: 'label', takesValue: true },
+  '--network': { kind: 'network', takesValue: true },
+  '--net': { kind: 'network', takesValue: true },
+  '--platform': { kind: 'platform', takesValue: true },
+  '--arch': { kind: 'arch', takesValue: true },
+  '-a': { kind: 'arch', takesValue: true },
+  '--dns': { kind: 'passthrough', takesValue: true },
+  '--dns-search': { kind: 'passthrough', takesValue: true },
+  '--dns-option': { kind: 'passthrough', takesValue: true },
+  '--dns-domain': { kind: 'passthrough', takesValue: true },
+  '--os': { kind: 'passthrough', takesValue: true },
+  '--entrypoint': { kind: 'passthrough', takesValue: true },
+  '--tmpfs': { kind: 'tmpfs', takesValue: true },
+  '--kernel': { kind: 'passthrough', takesValue: true },
+  '-k': { kind: 'passthrough', takesValue: true },
+  '--read-only': { kind: 'passthrough', takesValue: false },
+  '--rm': { kind: 'passthrough', takesValue: false },
+  '--remove': { kind: 'passthrough', takesValue: false },
+  '--rosetta': { kind: 'passthrough', takesValue: false },
+  '--ssh': { kind: 'passthrough', takesValue: false },
+  '--no-dns': { kind: 'passthrough', takesValue: false },
+  '--init': { kind: 'unsupported', takesValue: false, note: 'Apple containers always run their own init process' },
+  '--privileged': { kind: 'unsupported', takesValue: false, note: 'each container already runs in its own lightweight VM' },
+  '--cap-add': { kind: 'unsupported', takesValue: true, note: 'Linux capabilities cannot be configured' },
+  '--cap-drop': { kind: 'unsupported', takesValue: true, note: 'Linux capabilities cannot be configured' },
+  '--security-opt': { kind: 'unsupported', takesValue: true },
+  '--device': { kind: 'unsupported', takesValue: true },
+  '--gpus': { kind: 'unsupported', takesValue: true },
+  '--ipc': { kind: 'unsupported', takesValue: true },
+  '--pid': { kind: 'unsupported', takesValue: true },
+  '--shm-size': { kind: 'unsupported', takesValue: true },
+  '--ulimit': { kind: 'unsupported', takesValue: true },
+  '--add-host': { kind: 'unsupported', takesValue: true },
+  '--hostname': { kind: 'unsupported', takesValue: true, note: 'the container name is used as its DNS name' }
+};
+
+export function parseRunArgs(
+  runArgs: string[],
+  workspacePath: string,
+  parseMount: (spec: string) => VolumeMapping | undefined
+): RunArgsParseResult {
+  const result: RunArgsParseResult = {
+    env: {},
+    labels: {},
+    ports: [],
+    volumes: [],
+    additional: [],
+    warnings: [],
+    rejected: []
+  };
+
+  for (let index = 0; index < runArgs.length; index += 1) {
+    const arg = runArgs[index]?.trim();
+    if (!arg) {
+      continue;
+    }
+
+    // `--flag=value`, or a single-letter flag with its value attached (`-p8080:80`, `-eFOO=bar`).
+    let flag = arg;
+    let inlineValue: string | undefined;
+    if (arg.startsWith('--')) {
+      const eqIndex = arg.indexOf('=');
+      if (eqIndex > -1) {
+        flag = arg.slice(0, eqIndex);
+        inlineValue = arg.slice(eqIndex + 1);
+      }
+    } else if (arg.length > 2 && RUN_ARG_RULES[arg.slice(0, 2)]?.takesValue) {
+      flag = arg.slice(0, 2);
+      inlineValue = arg.slice(2);
+    }
+    const rule = RUN_ARG_RULES[flag];
+
+    if (!rule) {
+      if (arg.startsWith('-')) {
+        result.warnings.push(`\`${arg}\` is not a known runArgs flag and is passed to \`container run\` unchanged.`);
+      }
+      result.additional.push(arg);
+      continue;
+    }
+
+    let value: string | undefined;
+    if (rule.takesValue) {
+      if (inlineValue !== undefined) {
+        value = inlineValue;
+      } else if (index + 1 < runArgs.length) {
+        index += 1;
+        value = runArgs[index];
+      }
+      if (value === undefined) {
+        result.warnings.push(`\`${flag}\` expects a value and was ignored.`);
+        continue;
+      }
+    }
+
+    const display = value === undefined ? flag : `${flag} ${value}`;
+    switch (rule.kind) {
+      case 'cpus': {
+        const parsed = Number.parseFloat(value ?? '');
+        if (Number.isNaN(parsed)) {
+          result.warnings.push(`\`${display}\` is not a valid CPU count and was ignored.`);
+        } else {
+          result.cpus = parsed;
+        }
+        break;
+      }
+      case 'memory':
+        result.memory = value;
+        break;
+      case 'user':
+        result.user = value;
+        break;
+      case 'workdir':
+        result.workdir = value;
+        break;
+      case 'env': {
+        const [key, ...rest] = (value ?? '').split('=');
+        if (!key) {
+          result.warnings.push(`\`${display}\` is not a valid environment variable and was ignored.`);
+        } else if (rest.length === 0) {
+          // `-e NAME` forwards the host value, as with Docker.
+          const hostValue = process.env[key];
+          if (hostValue !== undefined) {
+            result.env[key] = hostValue;
+          }
+        } else {
+          result.env[key] = rest.join('=');
+        }
+        break;
+      }
+      case 'envFile':
+        result.additional.push('--env-file', path.resolve(workspacePath, value ?? ''));
+        break;
+      case 'volume': {
+        const volume = parseVolumeFlag(value ?? '', workspacePath);
+        if (volume) {
+          result.volumes.push(volume);
+        } else {
+          result.warnings.push(`\`${display}\` is not a valid volume and was ignored.`);
+        }
+        break;
+      }
+      case 'mount': {
+        const mount = parseMount(value ?? '');
+        if (mount) {
+          result.volumes.push(mount);
+        } else {
+          result.warnings.push(`\`${display}\` is not a valid mount and was ignored.`);
+        }
+        break;
+      }
+      case 'tmpfs': {
+        // Docker accepts `--tmpfs /path:options`; only the path carries over.
+        const target = (value ?? '').split(':')[0];
+        if (target) {
+          result.volumes.push({ type: 'tmpfs', source: '', target });
+        } else {
+          result.warnings.push(`\`${display}\` is not a valid tmpfs mount and was ignored.`);
+        }
+        break;
+      }
+      case 'publish':
+        result.ports.push(value ?? '');
+        break;
+      case 'name':
+        result.name = value;
+        break;
+      case 'label': {
+        const [key, ...rest] = (value ?? '').split('=');
+        if (key) {
+          result.labels[key] = rest.join('=');
+        }
+        break;
+      }
+      case 'network':
+        result.network = value;
+        break;
+      case 'platform': {
+        // linux/amd64 or linux/arm64/v8 - only the architecture is configurable.
+        const arch = (value ?? '').split('/')[1];
+        if (arch) {
+          result.arch = arch;
+        } else {
+          result.warnings.push(`\`${display}\` does not name an architecture and was ignored.`);
+        }
+        break;
+      }
+      case 'arch':
+        result.arch = value;
+        break;
+      case 'passthrough':
+        result.additional.push(...(value === undefined ? [flag] : [flag, value]));
+        break;
+      case 'unsupported':
+        result.warnings.push(`\`${display}\` is not supported by the Apple container CLI${rule.note ? ` (${rule.note})` : ''} and was dropped.`);
+        result.rejected.push(display);
+        break;
+    }
+  }
+
+  if (result.workdir) {
+    result.additional.push('--workdir', result.workdir);
+  }
+
+  return result;
+}
+
+// `-v source:target[:options]`; `~` expands to the home directory, relative sources are resolved
+// against the workspace and bare names refer to named volumes.
+function parseVolumeFlag(spec: string, workspacePath: string): VolumeMapping | undefined {
+  const parts = spec.split(':');
+  if (parts.length < 2 || !parts[0] || !parts[1]) {
+    return undefined;
+  }
+
+  const [source, target, mode] = parts;
+  const isPath = source.startsWith('.') || source.startsWith('/') || source.startsWith('~');
+  let resolvedSource = source;
+  if (source === '~' || source.startsWith('~/')) {
+    resolvedSource = path.join(os.homedir(), source.slice(1));
+  } else if (source.startsWith('.')) {
+    resolvedSource = path.resolve(workspacePath, source);
+  }
+  return {
+    type: isPath ? 'bind' : 'volume',
+    source: resolvedSource,
+    target,
+    // Options are comma-separated, e.g. `ro,z`.
+    readOnly: mode?.split(',').includes('ro') ?? false
+  };
+}
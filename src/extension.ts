@@ -1,18 +1,29 @@
 import * as vscode from 'vscode';
+import * as os from 'node:os';
+import * as path from 'node:path';
 
-import { ContainerCli, ImageSummary } from './cli/containerCli';
+import { ContainerCli } from './cli/containerCli';
 import { AppleContainerError, ErrorCode } from './core/errors';
 import { events } from './core/events';
 import { log, logError, logWarn } from './core/logger';
 import { handleWorkspaceAutoStart } from './core/workspaceAutoStart';
-import { ImageTreeItem, ImagesTreeProvider } from './views/imageTree';
+import { buildImageRemovalReferences, ImageTreeItem, ImagesTreeProvider } from './views/imageTree';
 import { ContainerTreeItem, ContainersTreeProvider } from './views/containerTree';
 import { ContainerCreateWizard } from './views/containerCreateWizard';
+import { VolumeTreeItem, VolumesTreeProvider } from './views/volumeTree';
+import { DEFAULT_NETWORK, NetworkTreeItem, NetworksTreeProvider } from './views/networkTree';
 import { SystemTreeProvider, SystemTreeItem } from './views/systemTree';
 import { fetchLatestRelease } from './updater/githubClient';
 import { logFormatter } from './core/logFormatter';
 import { ContainerLogManager } from './core/containerLogs';
 import { DevcontainerManager } from './devcontainer/devcontainerManager';
+import { ImageTransferManager, validateReference } from './core/imageTransfers';
+import { RegistryManager } from './core/registryManager';
+import { ReadonlyDocumentProvider } from './core/readonlyDocuments';
+import { renderImageDetails } from './views/imageInspect';
+import { ImagePruner } from './views/imagePrune';
+import { BuildHistory } from './core/buildHistory';
+import { BuildTreeItem, BuildsTreeProvider } from './views/buildTree';
 
 import { UpdateManager } from './updater/updateManager';
 
@@ -20,11 +31,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   log('Activating Apple Container Manager extension');
 
   const cli = new ContainerCli();
-  const systemProvider = new SystemTreeProvider();
+  const registryManager = new RegistryManager(cli, context);
+  const inspectDocuments = new ReadonlyDocumentProvider('acm-inspect');
+  const systemProvider = new SystemTreeProvider(registryManager);
   const logManager = new ContainerLogManager(cli);
   const containersProvider = new ContainersTreeProvider(cli, logManager);
   const imagesProvider = new ImagesTreeProvider(cli);
-  const devcontainerManager = new DevcontainerManager(cli);
+  const volumesProvider = new VolumesTreeProvider(cli);
+  const networksProvider = new NetworksTreeProvider(cli);
+  const imageTransfers = new ImageTransferManager(cli, context, registryManager);
+  const buildHistory = new BuildHistory(cli, context);
+  const buildsProvider = new BuildsTreeProvider(buildHistory);
+  const devcontainerManager = new DevcontainerManager(cli, context, imageTransfers, buildHistory);
   const updateManager = new UpdateManager(cli, context);
 
   const reopenStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
@@ -33,9 +51,15 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   reopenStatusBarItem.tooltip = 'Reopen folder in devcontainer';
 
   context.subscriptions.push(
+    registryManager,
+    inspectDocuments,
     systemProvider,
     containersProvider,
     imagesProvider,
+    volumesProvider,
+    networksProvider,
+    buildHistory,
+    buildsProvider,
     logManager,
     logFormatter,
     devcontainerManager,
@@ -43,11 +67,14 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     vscode.window.registerTreeDataProvider('appleContainerSystem', systemProvider),
     vscode.window.registerTreeDataProvider('appleContainerContainers', containersProvider),
     vscode.window.registerTreeDataProvider('appleContainerImages', imagesProvider),
+    vscode.window.registerTreeDataProvider('appleContainerVolumes', volumesProvider),
+    vscode.window.registerTreeDataProvider('appleContainerNetworks', networksProvider),
+    vscode.window.registerTreeDataProvider('appleContainerBuilds', buildsProvider),
     reopenStatusBarItem
   );
 
   const updateStatusBarVisibility = async (): Promise<void> => {
-    const files = await vscode.workspace.findFiles('{**/.devcontainer/devcontainer.json,**/.appcontainer/devcontainer.json,.appcontainer.json}', '**/node_modules/**', 1);
+    const files = await vscode.workspace.findFiles('{**/.devcontainer/devcontainer.json,**/.devcontainer/*/devcontainer.json,.devcontainer.json,**/.appcontainer/devcontainer.json,**/.appcontainer/*/devcontainer.json,.appcontainer.json}', '**/node_modules/**', 1);
     if (files.length > 0) {
       reopenStatusBarItem.show();
     } else {
@@ -63,13 +90,23 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
   void updateStatusBarVisibility();
 
+  context.subscriptions.push(
+    vscode.workspace.onDidOpenTextDocument(document => devcontainerManager.validateDocument(document)),
+    vscode.workspace.onDidSaveTextDocument(document => {
+      devcontainerManager.validateDocument(document);
+      void devcontainerManager.checkDriftOnSave(document);
+    })
+  );
+  vscode.workspace.textDocuments.forEach(document => devcontainerManager.validateDocument(document));
+
   const cliReady = await initializeCli(cli, containersProvider, imagesProvider);
   if (cliReady) {
     await handleWorkspaceAutoStart(cli);
+    await devcontainerManager.reconcileAppliedState().catch(error => logError('Failed to reconcile devcontainer state', error));
     await refreshSystemStatus(cli, containersProvider, imagesProvider, { refreshResources: true, requestedRunning: true });
   }
 
-  registerCommands(context, cli, systemProvider, containersProvider, imagesProvider, logManager, devcontainerManager, updateManager);
+  registerCommands(context, cli, systemProvider, containersProvider, imagesProvider, volumesProvider, networksProvider, logManager, imageTransfers, registryManager, inspectDocuments, buildHistory, devcontainerManager, updateManager);
   registerErrorHandler(context);
 }
 
@@ -101,10 +138,18 @@ function registerCommands(
   systemProvider: SystemTreeProvider,
   containersProvider: ContainersTreeProvider,
   imagesProvider: ImagesTreeProvider,
+  volumesProvider: VolumesTreeProvider,
+  networksProvider: NetworksTreeProvider,
   logManager: ContainerLogManager,
+  imageTransfers: ImageTransferManager,
+  registryManager: RegistryManager,
+  inspectDocuments: ReadonlyDocumentProvider,
+  buildHistory: BuildHistory,
   devcontainerManager: DevcontainerManager,
   updateManager: UpdateManager
 ): void {
+  const imagePruner = new ImagePruner(cli, imagesProvider);
+
   context.subscriptions.push(
     vscode.commands.registerCommand('appleContainer.system.start', async () => {
       await withCommandHandling('Starting container system', async () => {
@@ -186,9 +231,9 @@ function registerCommands(
         return;
       }
       await withCommandHandling(`Exec in ${identifier}`, async () => {
+        const remote = await devcontainerManager.getRemoteExecOptions(item.container);
         const { stdout, stderr } = await cli.execInContainer(item.container.id, ['/bin/sh', '-c', input], {
-          user: undefined,
-          workdir: undefined,
+          ...remote,
           tty: false,
           interactive: false
         });
@@ -207,10 +252,11 @@ function registerCommands(
       }
       const identifier = item.container.name ?? item.container.id;
       await withCommandHandling(`Opening shell in ${identifier}`, async () => {
+        const remote = await devcontainerManager.getRemoteExecOptions(item.container);
         const term = vscode.window.createTerminal({
           name: `Shell: ${identifier}`,
           shellPath: 'container',
-          shellArgs: ['exec', '--interactive', '--tty', item.container.id, '/bin/sh']
+          shellArgs: cli.buildExecArgs(item.container.id, ['/bin/sh'], { ...remote, interactive: true, tty: true })
         });
         term.show(true);
       });
@@ -251,6 +297,11 @@ function registerCommands(
         }
       });
     }),
+    vscode.commands.registerCommand('appleContainer.volumes.refresh', async () => {
+      await withCommandHandling('Refreshing volumes list', async () => {
+        await volumesProvider.refresh();
+      });
+    }),
     vscode.commands.registerCommand('appleContainer.container.logs.export', async (item?: ContainerTreeItem) => {
       if (!item?.container || item.container.id === 'empty-containers') {
         return;
@@ -331,6 +382,340 @@ function registerCommands(
         void vscode.window.showInformationMessage(`Image ${references[0] ?? item.image.id} removed.`);
       });
     }),
+    vscode.commands.registerCommand('appleContainer.images.prune', async () => {
+      await withCommandHandling('Pruning images', async () => {
+        await imagePruner.prune();
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.build.rerun', async (item?: BuildTreeItem) => {
+      const build = item?.build;
+      if (!build) {
+        return;
+      }
+
+      const label = build.tags[0] ?? build.source;
+      await withCommandHandling(`Re-running build of ${label}`, async () => {
+        await buildHistory.rerun(build.id, workspacePath => devcontainerManager.resolveBuildArgs(workspacePath));
+        await imagesProvider.refresh();
+        void vscode.window.showInformationMessage(`Build of ${label} completed.`);
+      }, `Building ${label}`);
+    }),
+    vscode.commands.registerCommand('appleContainer.build.openLog', async (item?: BuildTreeItem) => {
+      if (!item?.build) {
+        return;
+      }
+      await buildHistory.openLog(item.build.id);
+    }),
+    vscode.commands.registerCommand('appleContainer.builds.clear', async () => {
+      const confirmation = await vscode.window.showWarningMessage(
+        'Clear the build history and delete the recorded build logs?',
+        { modal: true },
+        'Clear'
+      );
+      if (confirmation !== 'Clear') {
+        return;
+      }
+      await withCommandHandling('Clearing build history', async () => {
+        await buildHistory.clear();
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.builder.inspect', async () => {
+      await withCommandHandling('Inspecting builder', async () => {
+        const status = await cli.getBuilderStatus();
+        await inspectDocuments.show('builder/status.json', JSON.stringify(status, null, 2), 'json');
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.builder.prune', async () => {
+      const confirmation = await vscode.window.showWarningMessage(
+        'Delete the builder and its build cache?',
+        { modal: true, detail: 'The next build starts a fresh builder and rebuilds every layer.' },
+        'Prune'
+      );
+      if (confirmation !== 'Prune') {
+        return;
+      }
+
+      await withCommandHandling('Pruning builder cache', async () => {
+        await cli.pruneBuilderCache();
+        void vscode.window.showInformationMessage('Builder cache pruned.');
+      }, 'Pruning builder cache');
+    }),
+    vscode.commands.registerCommand('appleContainer.volume.create', async () => {
+      const name = await vscode.window.showInputBox({
+        prompt: 'Name of the volume to create',
+        placeHolder: 'node-modules-cache',
+        validateInput: value => (/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(value.trim()) ? undefined : 'Use letters, digits, "_", "." or "-"')
+      });
+      if (!name) {
+        return;
+      }
+
+      await withCommandHandling(`Creating volume ${name}`, async () => {
+        await cli.createVolume(name.trim());
+        await volumesProvider.refresh();
+        void vscode.window.showInformationMessage(`Volume ${name.trim()} created.`);
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.volume.inspect', async (item?: VolumeTreeItem) => {
+      if (!item?.volume || item.volume.name === 'empty-volumes') {
+        return;
+      }
+
+      await withCommandHandling(`Inspecting volume ${item.volume.name}`, async () => {
+        const details = await cli.inspectVolume(item.volume.name);
+        const content = JSON.stringify({ ...details, usedBy: volumesProvider.getUsers(item.volume.name) }, null, 2);
+        await inspectDocuments.show(`volumes/${item.volume.name}.json`, content, 'json');
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.volume.remove', async (item?: VolumeTreeItem) => {
+      if (!item?.volume || item.volume.name === 'empty-volumes') {
+        return;
+      }
+
+      const users = volumesProvider.getUsers(item.volume.name);
+      if (users.length > 0) {
+        void vscode.window.showWarningMessage(`Volume ${item.volume.name} is used by ${users.join(', ')} and cannot be removed.`);
+        return;
+      }
+
+      const confirmation = await vscode.window.showWarningMessage(
+        `Are you sure you want to remove volume ${item.volume.name}? Its data will be lost.`,
+        { modal: true },
+        'Remove'
+      );
+      if (confirmation !== 'Remove') {
+        return;
+      }
+
+      await withCommandHandling(`Removing volume ${item.volume.name}`, async () => {
+        await cli.removeVolumes([item.volume.name]);
+        await volumesProvider.refresh();
+        void vscode.window.showInformationMessage(`Volume ${item.volume.name} removed.`);
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.volumes.prune', async () => {
+      const unused = volumesProvider.getCurrentVolumes().filter(volume => volumesProvider.getUsers(volume.name).length === 0);
+      if (unused.length === 0) {
+        void vscode.window.showInformationMessage('There are no unused volumes to prune.');
+        return;
+      }
+
+      const confirmation = await vscode.window.showWarningMessage(
+        `Remove ${unused.length} unused volume(s)? ${unused.map(volume => volume.name).join(', ')}`,
+        { modal: true, detail: 'Data stored in these volumes will be lost.' },
+        'Prune'
+      );
+      if (confirmation !== 'Prune') {
+        return;
+      }
+
+      await withCommandHandling('Pruning unused volumes', async () => {
+        const { removed, failed } = await cli.pruneVolumes(unused.map(volume => volume.name));
+        await volumesProvider.refresh();
+        if (failed.length > 0) {
+          void vscode.window.showWarningMessage(`Removed ${removed.length} volume(s). Could not remove: ${failed.join(', ')}.`);
+        } else {
+          void vscode.window.showInformationMessage(`Removed ${removed.length} unused volume(s).`);
+        }
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.networks.refresh', async () => {
+      await withCommandHandling('Refreshing networks list', async () => {
+        await networksProvider.refresh();
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.network.create', async () => {
+      const name = await vscode.window.showInputBox({
+        prompt: 'Name of the network to create',
+        placeHolder: 'backend',
+        validateInput: value => (/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(value.trim()) ? undefined : 'Use letters, digits, "_", "." or "-"')
+      });
+      if (!name) {
+        return;
+      }
+      const subnet = await vscode.window.showInputBox({
+        prompt: 'Subnet in CIDR notation (leave empty to let the system choose)',
+        placeHolder: '192.168.100.0/24',
+        validateInput: value => (!value.trim() || /^\d{1,3}(\.\d{1,3}){3}\/\d{1,2}$/.test(value.trim()) ? undefined : 'Enter a subnet such as 192.168.100.0/24')
+      });
+      if (subnet === undefined) {
+        return;
+      }
+
+      await withCommandHandling(`Creating network ${name}`, async () => {
+        await cli.createNetwork(name.trim(), { subnet });
+        await networksProvider.refresh();
+        void vscode.window.showInformationMessage(`Network ${name.trim()} created.`);
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.network.inspect', async (item?: NetworkTreeItem) => {
+      if (!item?.network || item.network.name === 'empty-networks') {
+        return;
+      }
+
+      await withCommandHandling(`Inspecting network ${item.network.name}`, async () => {
+        const details = await cli.inspectNetwork(item.network.name);
+        const containers = networksProvider.getAttachedContainers(item.network.name).map(container => container.name || container.id);
+        const content = JSON.stringify({ ...details, containers }, null, 2);
+        await inspectDocuments.show(`networks/${item.network.name}.json`, content, 'json');
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.network.remove', async (item?: NetworkTreeItem) => {
+      if (!item?.network || item.network.name === 'empty-networks') {
+        return;
+      }
+
+      if (item.network.name === DEFAULT_NETWORK) {
+        void vscode.window.showWarningMessage('The default network cannot be removed.');
+        return;
+      }
+      const attached = networksProvider.getAttachedContainers(item.network.name);
+      if (attached.length > 0) {
+        void vscode.window.showWarningMessage(`Network ${item.network.name} is used by ${attached.map(container => container.name || container.id).join(', ')} and cannot be removed.`);
+        return;
+      }
+
+      const confirmation = await vscode.window.showWarningMessage(
+        `Are you sure you want to remove network ${item.network.name}?`,
+        { modal: true },
+        'Remove'
+      );
+      if (confirmation !== 'Remove') {
+        return;
+      }
+
+      await withCommandHandling(`Removing network ${item.network.name}`, async () => {
+        await cli.deleteNetworks([item.network.name]);
+        await networksProvider.refresh();
+        void vscode.window.showInformationMessage(`Network ${item.network.name} removed.`);
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.image.pull', async () => {
+      const reference = await imageTransfers.promptReference(imagesProvider.getCurrentImages());
+      if (!reference) {
+        return;
+      }
+
+      await withCommandHandling(`Pulling image ${reference}`, async () => {
+        await imageTransfers.pull(reference);
+        await imagesProvider.refresh();
+        void vscode.window.showInformationMessage(`Image ${reference} pulled.`);
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.image.inspect', async (item?: ImageTreeItem) => {
+      if (!item?.image || item.image.id === 'empty-images') {
+        return;
+      }
+
+      const reference = [item.image.repository, item.image.tag].filter(Boolean).join(':') || item.image.id;
+      await withCommandHandling(`Inspecting image ${reference}`, async () => {
+        const details = await cli.inspectImage(reference);
+        await inspectDocuments.show(`images/${reference.replace(/[/:@]/g, '_')}.md`, renderImageDetails(details), 'markdown');
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.image.save', async (item?: ImageTreeItem) => {
+      if (!item?.image || item.image.id === 'empty-images') {
+        return;
+      }
+
+      const reference = [item.image.repository, item.image.tag].filter(Boolean).join(':') || item.image.id;
+      const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+      const fileName = `${reference.split('/').pop()?.replace(/[:@]/g, '-') ?? 'image'}.tar`;
+      const target = await vscode.window.showSaveDialog({
+        title: `Save ${reference}`,
+        defaultUri: vscode.Uri.file(path.join(folder, fileName)),
+        filters: { 'Tar archives': ['tar'] }
+      });
+      if (!target) {
+        return;
+      }
+
+      await withCommandHandling(`Saving image ${reference} to ${target.fsPath}`, async () => {
+        await imageTransfers.save(reference, target.fsPath);
+        void vscode.window.showInformationMessage(`Image ${reference} saved to ${target.fsPath}.`);
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.images.load', async () => {
+      const [source] = await vscode.window.showOpenDialog({
+        title: 'Load Images from Archive',
+        canSelectMany: false,
+        filters: { 'Tar archives': ['tar'] }
+      }) ?? [];
+      if (!source) {
+        return;
+      }
+
+      await withCommandHandling(`Loading images from ${source.fsPath}`, async () => {
+        const archive = await imageTransfers.load(source.fsPath);
+        await imagesProvider.refresh();
+        const loaded = archive.references.length > 0 ? archive.references.join(', ') : `${archive.manifests} image(s)`;
+        void vscode.window.showInformationMessage(`Loaded ${loaded} from ${path.basename(source.fsPath)}.`);
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.image.tag', async (item?: ImageTreeItem) => {
+      if (!item?.image || item.image.id === 'empty-images') {
+        return;
+      }
+
+      const source = [item.image.repository, item.image.tag].filter(Boolean).join(':') || item.image.id;
+      const target = await vscode.window.showInputBox({
+        prompt: `New reference for ${source}`,
+        value: source,
+        ignoreFocusOut: true,
+        validateInput: value => validateReference(value) ?? (value.trim() === source ? 'Enter a different reference' : undefined)
+      });
+      if (!target) {
+        return;
+      }
+
+      await withCommandHandling(`Tagging image ${source} as ${target.trim()}`, async () => {
+        await cli.tagImage(source, target.trim());
+        await imagesProvider.refresh();
+        void vscode.window.showInformationMessage(`Tagged ${source} as ${target.trim()}.`);
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.image.push', async (item?: ImageTreeItem) => {
+      if (!item?.image || item.image.id === 'empty-images') {
+        return;
+      }
+
+      const source = [item.image.repository, item.image.tag].filter(Boolean).join(':') || item.image.id;
+      const target = await imageTransfers.promptPushTarget(source);
+      if (!target) {
+        return;
+      }
+
+      await withCommandHandling(`Pushing image ${target}`, async () => {
+        if (target !== source) {
+          await cli.tagImage(source, target);
+        }
+        await imageTransfers.push(target);
+        await imagesProvider.refresh();
+        void vscode.window.showInformationMessage(`Image ${target} pushed.`);
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.registry.login', async (item?: SystemTreeItem) => {
+      await withCommandHandling('Logging in to registry', async () => {
+        const entry = await registryManager.login(item?.registry?.server);
+        if (entry) {
+          void vscode.window.showInformationMessage(`Logged in to ${entry.server} as ${entry.username}.`);
+        }
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.registry.logout', async (item?: SystemTreeItem) => {
+      const server = item?.registry?.server ?? await vscode.window.showQuickPick(
+        registryManager.list().map(entry => entry.server),
+        { placeHolder: 'Select the registry to log out of' }
+      );
+      if (!server) {
+        return;
+      }
+
+      await withCommandHandling(`Logging out of ${server}`, async () => {
+        await registryManager.logout(server);
+        void vscode.window.showInformationMessage(`Logged out of ${server}.`);
+      });
+    }),
     vscode.commands.registerCommand('appleContainer.container.create', async () => {
       await withCommandHandling('Creating container', async () => {
         let images = imagesProvider.getCurrentImages();
@@ -342,11 +727,14 @@ function registerCommands(
             logError('Failed to refresh images prior to container creation', error);
           }
         }
-        const wizard = new ContainerCreateWizard(images, vscode.workspace.workspaceFolders);
+        const wizard = new ContainerCreateWizard(images, vscode.workspace.workspaceFolders, networksProvider.getCurrentNetworks());
         const result = await wizard.run();
         if (!result) {
           return;
         }
+        if (await imageTransfers.ensureImage(result.image, { arch: result.arch })) {
+          await imagesProvider.refresh();
+        }
         await cli.createContainer(result);
         await containersProvider.refresh();
         const identifier = result.name ?? result.image;
@@ -392,6 +780,26 @@ function registerCommands(
         await devcontainerManager.runPostLifecycle();
       });
     }),
+    vscode.commands.registerCommand('appleContainer.devcontainer.selectConfig', async () => {
+      await withCommandHandling('Selecting devcontainer configuration', async () => {
+        await devcontainerManager.selectConfiguration();
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.devcontainer.showResolvedConfig', async () => {
+      await withCommandHandling('Showing resolved devcontainer configuration', async () => {
+        await devcontainerManager.showResolvedConfiguration();
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.devcontainer.showEffectiveConfig', async () => {
+      await withCommandHandling('Showing effective devcontainer configuration', async () => {
+        await devcontainerManager.showEffectiveConfiguration();
+      });
+    }),
+    vscode.commands.registerCommand('appleContainer.devcontainer.lifecycleLogs', async () => {
+      await withCommandHandling('Opening devcontainer lifecycle transcripts', async () => {
+        await devcontainerManager.showLifecycleTranscripts();
+      });
+    }),
     vscode.commands.registerCommand('appleContainer.devcontainer.open', async () => {
       await withCommandHandling('Displaying devcontainer connection instructions', async () => {
         await devcontainerManager.showOpenInstructions();
@@ -634,26 +1042,3 @@ function isContainerRunningStatus(status?: string): boolean {
   const normalized = status.toLowerCase();
   return normalized.includes('running') || normalized.startsWith('up');
 }
-
-function buildImageRemovalReferences(image: ImageSummary): string[] {
-  const references = new Set<string>();
-  const repository = image.repository?.trim();
-  const tag = image.tag?.trim();
-  const digest = image.digest?.trim();
-  const id = image.id?.trim();
-
-  if (repository && tag) {
-    references.add(`${repository}:${tag}`);
-  }
-  if (repository) {
-    references.add(repository);
-  }
-  if (digest) {
-    references.add(digest);
-  }
-  if (id) {
-    references.add(id);
-  }
-
-  return Array.from(references);
-}
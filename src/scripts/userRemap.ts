@@ -0,0 +1,44 @@
+// Runs as root inside the container. Usage: sh -c "$USER_REMAP_SCRIPT" remap <user> <uid> <gid>
+export const USER_REMAP_SCRIPT = `set -e
+
+REMOTE_USER="$1"
+NEW_UID="$2"
+NEW_GID="$3"
+
+eval $(sed -n "s/^\${REMOTE_USER}:[^:]*:\\([^:]*\\):\\([^:]*\\):[^:]*:\\([^:]*\\).*/OLD_UID=\\1;OLD_GID=\\2;HOME_FOLDER=\\3/p" /etc/passwd)
+eval $(sed -n "s/^\\([^:]*\\):[^:]*:\${NEW_UID}:.*/EXISTING_USER=\\1/p" /etc/passwd)
+eval $(sed -n "s/^\\([^:]*\\):[^:]*:\${NEW_GID}:.*/EXISTING_GROUP=\\1/p" /etc/group)
+
+if [ -z "$OLD_UID" ]; then
+    echo "Remote user not found in /etc/passwd ($REMOTE_USER)."
+    exit 0
+fi
+
+if [ "$OLD_UID" = "$NEW_UID" ] && [ "$OLD_GID" = "$NEW_GID" ]; then
+    echo "UID/GID already match ($NEW_UID:$NEW_GID)."
+    exit 0
+fi
+
+if [ "$OLD_UID" != "$NEW_UID" ] && [ -n "$EXISTING_USER" ]; then
+    echo "User with UID exists ($EXISTING_USER=$NEW_UID); leaving $REMOTE_USER unchanged."
+    exit 0
+fi
+
+if [ "$OLD_GID" != "$NEW_GID" ] && [ -n "$EXISTING_GROUP" ]; then
+    echo "Group with GID exists ($EXISTING_GROUP=$NEW_GID); keeping GID $OLD_GID."
+    NEW_GID="$OLD_GID"
+    if [ "$OLD_UID" = "$NEW_UID" ]; then
+        echo "UID already matches ($NEW_UID) and GID $OLD_GID is kept."
+        exit 0
+    fi
+fi
+
+echo "Updating $REMOTE_USER UID:GID from $OLD_UID:$OLD_GID to $NEW_UID:$NEW_GID."
+sed -i -e "s/^\\(\${REMOTE_USER}:[^:]*:\\)[^:]*:[^:]*/\\1\${NEW_UID}:\${NEW_GID}/" /etc/passwd
+if [ "$OLD_GID" != "$NEW_GID" ]; then
+    sed -i -e "s/^\\([^:]*:[^:]*:\\)\${OLD_GID}:/\\1\${NEW_GID}:/" /etc/group
+fi
+if [ -n "$HOME_FOLDER" ] && [ -d "$HOME_FOLDER" ]; then
+    chown -R "$NEW_UID:$NEW_GID" "$HOME_FOLDER"
+fi
+`;
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+
+import { BuildHistory, BuildRecord } from '../core/buildHistory';
+
+export class BuildTreeItem extends vscode.TreeItem {
+  constructor(public readonly build?: BuildRecord) {
+    const label = build ? build.tags[0] ?? path.basename(build.context ?? build.source) : 'No builds recorded yet';
+    super(label, vscode.TreeItemCollapsibleState.None);
+
+    if (!build) {
+      this.iconPath = new vscode.ThemeIcon('info');
+      this.contextValue = 'build-info';
+      this.tooltip = 'Image builds started by the extension are listed here';
+      return;
+    }
+
+    const started = new Date(build.startedAt);
+    const duration = build.durationMs !== undefined ? formatDuration(build.durationMs) : undefined;
+    this.description = [build.source, build.status === 'running' ? 'building…' : duration, started.toLocaleString()].filter(Boolean).join(' · ');
+    this.tooltip = [
+      `Tags: ${build.tags.length > 0 ? build.tags.join(', ') : 'none'}`,
+      `Source: ${build.source}`,
+      build.context ? `Context: ${build.context}` : undefined,
+      build.dockerfile ? `Dockerfile: ${build.dockerfile}` : undefined,
+      `Started: ${started.toLocaleString()}`,
+      duration ? `Duration: ${duration}` : undefined,
+      `Status: ${build.status}`,
+      build.error ? `Error: ${build.error}` : undefined
+    ].filter(Boolean).join('\n');
+
+    if (build.status === 'running') {
+      this.contextValue = 'build-running';
+      this.iconPath = new vscode.ThemeIcon('sync~spin');
+      return;
+    }
+
+    this.contextValue = 'build-finished';
+    this.iconPath = build.status === 'succeeded'
+      ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+      : new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+    this.command = {
+      command: 'appleContainer.build.openLog',
+      title: 'Open Build Log',
+      arguments: [this]
+    };
+  }
+}
+
+/** Lists recent image builds from the build history, newest first. */
+export class BuildsTreeProvider implements vscode.TreeDataProvider<BuildTreeItem>, vscode.Disposable {
+  private readonly emitter = new vscode.EventEmitter<BuildTreeItem | undefined | null | void>();
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly history: BuildHistory) {
+    this.subscription = history.onDidChange(() => this.emitter.fire());
+  }
+
+  readonly onDidChangeTreeData: vscode.Event<BuildTreeItem | undefined | null | void> = this.emitter.event;
+
+  refresh(): void {
+    this.emitter.fire();
+  }
+
+  getTreeItem(element: BuildTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(): Promise<BuildTreeItem[]> {
+    const builds = this.history.list();
+    if (builds.length === 0) {
+      return [new BuildTreeItem()];
+    }
+    return builds.map(build => new BuildTreeItem(build));
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this.emitter.dispose();
+  }
+}
+
+function formatDuration(milliseconds: number): string {
+  const seconds = Math.round(milliseconds / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
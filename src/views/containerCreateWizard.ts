@@ -1,9 +1,9 @@
 import * as vscode from 'vscode';
 
-import { ContainerCreateOptions, ImageSummary, VolumeMapping } from '../cli/containerCli';
+import { ContainerCreateOptions, ImageSummary, NetworkSummary, VolumeMapping } from '../cli/containerCli';
 
 type BasicField = 'image' | 'name' | 'arch' | 'cpus' | 'memory';
-type AdvancedField = 'ports' | 'volumes' | 'additional';
+type AdvancedField = 'ports' | 'volumes' | 'network' | 'additional';
 
 interface WizardState {
   image?: string;
@@ -13,6 +13,7 @@ interface WizardState {
   memory: string;
   ports: string[];
   volumes: VolumeMapping[];
+  network?: string;
   additionalArgs: string[];
 }
 
@@ -26,6 +27,11 @@ interface VolumePickItem extends vscode.QuickPickItem {
   index?: number;
 }
 
+interface NetworkPickItem extends vscode.QuickPickItem {
+  variant: 'default' | 'network' | 'custom';
+  value?: string;
+}
+
 interface BasicPickItem extends vscode.QuickPickItem {
   key: BasicField | 'next';
 }
@@ -37,7 +43,8 @@ interface AdvancedPickItem extends vscode.QuickPickItem {
 export class ContainerCreateWizard {
   constructor(
     private readonly images: ImageSummary[],
-    private readonly workspaceFolders: readonly vscode.WorkspaceFolder[] | undefined
+    private readonly workspaceFolders: readonly vscode.WorkspaceFolder[] | undefined,
+    private readonly networks: NetworkSummary[] = []
   ) {}
 
   async run(): Promise<ContainerCreateOptions | undefined> {
@@ -78,6 +85,7 @@ export class ContainerCreateWizard {
         memory: state.memory,
         ports: [...state.ports],
         volumes: state.volumes.map(volume => ({ ...volume })),
+        network: state.network,
         additionalArgs: [...state.additionalArgs]
       };
 
@@ -137,6 +145,7 @@ export class ContainerCreateWizard {
   }
 
   private buildBasicPickItems(state: WizardState): BasicPickItem[] {
+    const archMismatch = this.describeArchMismatch(state);
     const items: BasicPickItem[] = [
       {
         key: 'image',
@@ -151,7 +160,8 @@ export class ContainerCreateWizard {
       {
         key: 'arch',
         label: 'CPU architecture',
-        description: state.arch
+        description: state.arch,
+        detail: archMismatch ? `$(warning) ${archMismatch}` : undefined
       },
       {
         key: 'cpus',
@@ -190,6 +200,11 @@ export class ContainerCreateWizard {
           ? state.volumes.map(volume => `${volume.source} → ${volume.target}${volume.readOnly ? ' (read-only)' : ''}`).join(', ')
           : 'Not set'
       },
+      {
+        key: 'network',
+        label: 'Network',
+        description: state.network ?? 'Default network'
+      },
       {
         key: 'additional',
         label: 'Additional arguments',
@@ -221,6 +236,7 @@ export class ContainerCreateWizard {
         if (!state.name) {
           state.name = this.deriveNameFromImage(selection);
         }
+        this.warnOnArchMismatch(state);
         break;
       }
       case 'name': {
@@ -245,11 +261,18 @@ export class ContainerCreateWizard {
         break;
       }
       case 'arch': {
+        const available = this.findImage(state.image)?.variants;
+        const availability = (value: string): string | undefined => {
+          if (!available?.length) {
+            return undefined;
+          }
+          return available.some(variant => normalizeArch(variant.architecture) === normalizeArch(value)) ? 'available in image' : 'not in image';
+        };
         const arch = await vscode.window.showQuickPick(
           [
-            { label: 'arm64', description: 'Default architecture', value: 'arm64' },
-            { label: 'amd64', description: 'x86 architecture', value: 'amd64' },
-            { label: 'x86_64', description: 'Intel compatible', value: 'x86_64' },
+            { label: 'arm64', description: 'Default architecture', detail: availability('arm64'), value: 'arm64' },
+            { label: 'amd64', description: 'x86 architecture', detail: availability('amd64'), value: 'amd64' },
+            { label: 'x86_64', description: 'Intel compatible', detail: availability('x86_64'), value: 'x86_64' },
             { label: 'Custom…', value: 'custom' }
           ],
           {
@@ -274,6 +297,7 @@ export class ContainerCreateWizard {
         } else if (arch.value) {
           state.arch = arch.value;
         }
+        this.warnOnArchMismatch(state);
         break;
       }
       case 'cpus': {
@@ -373,6 +397,10 @@ export class ContainerCreateWizard {
         await this.manageVolumes(state);
         break;
       }
+      case 'network': {
+        await this.pickNetwork(state);
+        break;
+      }
       case 'additional': {
         const value = await vscode.window.showInputBox({
           prompt: 'Enter additional CLI arguments',
@@ -391,11 +419,75 @@ export class ContainerCreateWizard {
     }
   }
 
+  private async pickNetwork(state: WizardState): Promise<void> {
+    const items: NetworkPickItem[] = [
+      { variant: 'default', label: 'Default network', picked: !state.network },
+      ...this.networks
+        .filter(network => network.name !== 'default')
+        .map<NetworkPickItem>(network => ({
+          variant: 'network',
+          value: network.name,
+          label: network.name,
+          description: network.subnet,
+          picked: network.name === state.network
+        })),
+      { variant: 'custom', label: 'New network…', description: 'Created when the container starts', alwaysShow: true }
+    ];
+
+    const selection = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Attach the container to a network',
+      ignoreFocusOut: true
+    });
+    if (!selection) {
+      return;
+    }
+
+    if (selection.variant === 'default') {
+      state.network = undefined;
+    } else if (selection.variant === 'network') {
+      state.network = selection.value;
+    } else {
+      const name = await vscode.window.showInputBox({
+        prompt: 'Enter a network name',
+        value: state.network ?? '',
+        ignoreFocusOut: true,
+        validateInput: input => (/^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/.test(input.trim()) ? undefined : 'Network name may include letters, numbers, . _ -')
+      });
+      if (name?.trim()) {
+        state.network = name.trim();
+      }
+    }
+  }
+
+  private findImage(reference?: string): ImageSummary | undefined {
+    if (!reference) {
+      return undefined;
+    }
+    return this.images.find(image => ([image.repository, image.tag].filter(Boolean).join(':') || image.id) === reference);
+  }
+
+  /** Explains why the chosen architecture will not run, if the image's platforms are known. */
+  private describeArchMismatch(state: WizardState): string | undefined {
+    const variants = this.findImage(state.image)?.variants;
+    if (!variants?.length || variants.some(variant => normalizeArch(variant.architecture) === normalizeArch(state.arch))) {
+      return undefined;
+    }
+    return `${state.image} has no ${state.arch} variant (available: ${variants.map(variant => variant.platform).join(', ')})`;
+  }
+
+  private warnOnArchMismatch(state: WizardState): void {
+    const mismatch = this.describeArchMismatch(state);
+    if (mismatch) {
+      void vscode.window.showWarningMessage(mismatch);
+    }
+  }
+
   private async pickImage(current?: string): Promise<string | undefined> {
     const items: ImagePickItem[] = this.images.map(image => {
       const reference = [image.repository, image.tag].filter(Boolean).join(':') || image.id;
       const detailParts = [
         image.size ? `Size ${image.size}` : undefined,
+        image.variants?.length ? image.variants.map(variant => variant.platform).join(', ') : undefined,
         image.createdAt ? `Created ${image.createdAt}` : undefined
       ].filter(Boolean);
       return {
@@ -559,3 +651,17 @@ export class ContainerCreateWizard {
     return trimmed.length > 0 ? trimmed : 'container';
   }
 }
+
+// `container` accepts both Docker and uname spellings of the same architecture.
+function normalizeArch(value?: string): string | undefined {
+  const normalized = value?.trim().toLowerCase();
+  switch (normalized) {
+    case 'x86_64':
+    case 'x86-64':
+      return 'amd64';
+    case 'aarch64':
+      return 'arm64';
+    default:
+      return normalized;
+  }
+}
@@ -61,7 +61,7 @@ export class ContainerTreeItem extends vscode.TreeItem {
       portSummary ? `Ports: ${portSummary}` : undefined,
       container.ipAddress ? `IP Address: ${container.ipAddress}` : undefined,
       container.address ? `Network: ${container.address}` : undefined,
-      container.volumes ? `Volumes: ${container.volumes}` : undefined,
+      container.volumes ? `Mounts:\n${container.volumes.split(', ').map(mount => `  ${mount}`).join('\n')}` : undefined,
       container.os ? `OS: ${container.os}` : undefined,
       container.arch ? `Arch: ${container.arch}` : undefined,
       container.createdAt ? `Created: ${container.createdAt}` : undefined,
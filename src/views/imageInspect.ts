@@ -0,0 +1,96 @@
+import { ImageDetails, ImageVariantDetails } from '../cli/containerCli';
+
+const MAX_COMMAND_LENGTH = 160;
+
+/** Renders `container image inspect` output as a Markdown report, one section per platform. */
+export function renderImageDetails(details: ImageDetails): string {
+  const lines: string[] = [
+    `# Image: ${details.reference}`,
+    '',
+    ...bulletList([
+      ['Digest', details.digest],
+      ['Media type', details.mediaType],
+      ['Size', details.size],
+      ['Platforms', details.variants.map(variant => variant.platform).join(', ')]
+    ]),
+    ''
+  ];
+
+  for (const variant of details.variants) {
+    lines.push(...renderVariant(variant));
+  }
+
+  lines.push('## Raw inspect output', '', '```json', JSON.stringify(details.raw, null, 2), '```', '');
+  return lines.join('\n');
+}
+
+function renderVariant(variant: ImageVariantDetails): string[] {
+  const lines: string[] = [
+    `## ${variant.platform}`,
+    '',
+    ...bulletList([
+      ['Digest', variant.digest],
+      ['Size', variant.size],
+      ['Created', variant.created],
+      ['Layers', String(variant.layers)],
+      ['Entrypoint', variant.entrypoint ? code(JSON.stringify(variant.entrypoint)) : undefined],
+      ['Command', variant.cmd ? code(JSON.stringify(variant.cmd)) : undefined],
+      ['Working directory', variant.workingDir ? code(variant.workingDir) : undefined],
+      ['User', variant.user ? code(variant.user) : undefined],
+      ['Exposed ports', variant.exposedPorts.length > 0 ? variant.exposedPorts.map(code).join(', ') : undefined]
+    ]),
+    ''
+  ];
+
+  lines.push(...table('Environment', ['Variable', 'Value'], Object.entries(variant.env)));
+  lines.push(...table('Labels', ['Label', 'Value'], Object.entries(variant.labels)));
+  lines.push(...table(
+    'History',
+    ['#', 'Created', 'Layer', 'Created by'],
+    variant.history.map((entry, index) => [
+      String(index + 1),
+      entry.created ?? '',
+      entry.emptyLayer ? 'metadata' : 'layer',
+      truncate(entry.createdBy ?? entry.comment ?? '')
+    ])
+  ));
+
+  return lines;
+}
+
+function bulletList(entries: Array<[string, string | undefined]>): string[] {
+  return entries
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .map(([label, value]) => `- **${label}**: ${value}`);
+}
+
+function table(title: string, headers: string[], rows: string[][]): string[] {
+  if (rows.length === 0) {
+    return [];
+  }
+  return [
+    `### ${title}`,
+    '',
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell => escapeCell(cell)).join(' | ')} |`),
+    ''
+  ];
+}
+
+// Backslashes do not escape inside code spans, so the fence is one backtick longer than any run in the value.
+function code(value: string): string {
+  const longestRun = Math.max(0, ...(value.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = value.startsWith('`') || value.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${value}${padding}${fence}`;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function truncate(value: string): string {
+  const normalized = value.replace(/\s+/g, ' ').trim();
+  return normalized.length > MAX_COMMAND_LENGTH ? `${normalized.slice(0, MAX_COMMAND_LENGTH - 1)}…` : normalized;
+}
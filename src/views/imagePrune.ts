@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+
+import { ContainerCli, ContainerSummary, formatBytes } from '../cli/containerCli';
+import { logError, logInfo, logWarn } from '../core/logger';
+import { buildImageRemovalReferences, ImagePruneCandidate, ImagesTreeProvider } from './imageTree';
+
+interface PruneResult {
+  removed: ImagePruneCandidate[];
+  failed: string[];
+  cancelled: boolean;
+}
+
+interface CandidatePickItem extends vscode.QuickPickItem {
+  candidate: ImagePruneCandidate;
+}
+
+/**
+ * Reclaims disk space from images no container uses. Dangling images, typically the previous
+ * `acm/<workspace>:dev` build left untagged by a rebuild, are preselected; other unused
+ * images are offered but must be picked explicitly.
+ */
+export class ImagePruner {
+  constructor(
+    private readonly cli: ContainerCli,
+    private readonly imagesProvider: ImagesTreeProvider
+  ) { }
+
+  async prune(): Promise<void> {
+    // Usage must come from the current containers, not whatever the containers view last saw.
+    let containers: ContainerSummary[];
+    try {
+      containers = await this.cli.listContainers();
+    } catch (error) {
+      logError('Unable to list containers before pruning images', error);
+      void vscode.window.showErrorMessage('Cannot prune images: the containers using them could not be listed. See the Apple Container output for details.');
+      return;
+    }
+    if (!await this.imagesProvider.refresh()) {
+      void vscode.window.showErrorMessage('Cannot prune images: the image list could not be refreshed. See the Apple Container output for details.');
+      return;
+    }
+    this.imagesProvider.updateUsage(containers);
+
+    const candidates = this.imagesProvider.getPruneCandidates();
+    if (candidates.length === 0) {
+      void vscode.window.showInformationMessage('There are no unused images to prune.');
+      return;
+    }
+
+    const selected = await this.pickCandidates(candidates);
+    if (!selected || selected.length === 0) {
+      return;
+    }
+
+    const confirmation = await vscode.window.showWarningMessage(
+      `Remove ${selected.length} image(s) and reclaim ${this.describeSize(selected)}?`,
+      { modal: true, detail: selected.map(candidate => this.referenceOf(candidate)).join('\n') },
+      'Remove'
+    );
+    if (confirmation !== 'Remove') {
+      return;
+    }
+
+    const result = await this.removeAll(selected);
+    await this.imagesProvider.refresh();
+
+    const summary = `Removed ${result.removed.length} image(s), reclaimed ${this.describeSize(result.removed)}`;
+    logInfo(summary);
+    if (result.failed.length > 0) {
+      void vscode.window.showWarningMessage(`${summary}. Could not remove: ${result.failed.join(', ')}. See the Apple Container output for details.`);
+    } else if (result.cancelled) {
+      void vscode.window.showInformationMessage(`${summary} before the prune was cancelled.`);
+    } else {
+      void vscode.window.showInformationMessage(`${summary}.`);
+    }
+  }
+
+  private async pickCandidates(candidates: ImagePruneCandidate[]): Promise<ImagePruneCandidate[] | undefined> {
+    const quickPick = vscode.window.createQuickPick<CandidatePickItem>();
+    quickPick.title = `Prune Images (${this.describeSize(candidates)} reclaimable)`;
+    quickPick.canSelectMany = true;
+    quickPick.ignoreFocusOut = true;
+    quickPick.matchOnDescription = true;
+    quickPick.items = candidates.map(candidate => ({
+      candidate,
+      label: this.referenceOf(candidate),
+      description: [candidate.dangling ? 'dangling' : 'unused', candidate.image.size].filter(Boolean).join(' · '),
+      detail: candidate.image.createdAt ? `Created ${candidate.image.createdAt}` : undefined
+    }));
+    quickPick.selectedItems = quickPick.items.filter(item => item.candidate.dangling);
+
+    const updatePlaceholder = (): void => {
+      const picked = quickPick.selectedItems.map(item => item.candidate);
+      quickPick.placeholder = `${picked.length} selected, ${this.describeSize(picked)} to reclaim`;
+    };
+    updatePlaceholder();
+    quickPick.onDidChangeSelection(updatePlaceholder);
+
+    return new Promise<ImagePruneCandidate[] | undefined>(resolve => {
+      let settled = false;
+      quickPick.onDidAccept(() => {
+        settled = true;
+        const picked = quickPick.selectedItems.map(item => item.candidate);
+        quickPick.hide();
+        resolve(picked);
+      });
+      quickPick.onDidHide(() => {
+        quickPick.dispose();
+        if (!settled) {
+          resolve(undefined);
+        }
+      });
+      quickPick.show();
+    });
+  }
+
+  private async removeAll(selected: ImagePruneCandidate[]): Promise<PruneResult> {
+    const result: PruneResult = { removed: [], failed: [], cancelled: false };
+    await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Pruning images',
+      cancellable: true
+    }, async (progress, token) => {
+      for (const [index, candidate] of selected.entries()) {
+        if (token.isCancellationRequested) {
+          result.cancelled = true;
+          return;
+        }
+
+        const reference = this.referenceOf(candidate);
+        progress.report({ message: `${index + 1}/${selected.length} ${reference}` });
+        try {
+          await this.cli.removeImage(buildImageRemovalReferences(candidate.image));
+          result.removed.push(candidate);
+        } catch (error) {
+          logWarn(`Failed to remove image ${reference}: ${error}`);
+          result.failed.push(reference);
+        }
+        progress.report({ increment: 100 / selected.length });
+      }
+    });
+    return result;
+  }
+
+  private referenceOf(candidate: ImagePruneCandidate): string {
+    const { image } = candidate;
+    if (candidate.dangling) {
+      return image.digest ?? image.id;
+    }
+    return [image.repository, image.tag].filter(Boolean).join(':') || image.id;
+  }
+
+  private describeSize(candidates: ImagePruneCandidate[]): string {
+    const known = candidates.filter(candidate => candidate.image.sizeBytes !== undefined);
+    const total = formatBytes(known.reduce((sum, candidate) => sum + (candidate.image.sizeBytes ?? 0), 0));
+    return known.length < candidates.length ? `at least ${total}` : total;
+  }
+}
@@ -1,13 +1,13 @@
 import * as vscode from 'vscode';
 
-import { ContainerCli, ContainerSummary, ImageSummary } from '../cli/containerCli';
+import { ContainerCli, ContainerSummary, ImagePlatformVariant, ImageSummary } from '../cli/containerCli';
 import { events, SystemStatusPayload } from '../core/events';
 import { log, logError } from '../core/logger';
 
 export class ImageTreeItem extends vscode.TreeItem {
   constructor(public readonly image: ImageSummary, private readonly actionsEnabled: boolean) {
     const label = image.repository?.trim().length ? image.repository : 'Unknown image';
-    super(label, vscode.TreeItemCollapsibleState.None);
+    super(label, image.variants?.length ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
 
     if (image.id === 'empty-images') {
       this.label = 'No images found';
@@ -17,14 +17,16 @@ export class ImageTreeItem extends vscode.TreeItem {
       return;
     }
 
-    this.description = image.tag ?? undefined;
+    const platforms = image.variants?.map(variant => variant.architecture ?? variant.platform) ?? [];
+    this.description = [image.tag, platforms.length > 1 ? platforms.join(', ') : undefined].filter(Boolean).join(' · ') || undefined;
     const lines = [
       `Repository: ${image.repository}`,
       image.tag ? `Version: ${image.tag}` : undefined,
       `Image ID: ${image.id}`,
       image.digest ? `Digest: ${image.digest}` : undefined,
       image.size ? `Size: ${image.size}` : undefined,
-      image.createdAt ? `Created: ${image.createdAt}` : undefined
+      image.createdAt ? `Created: ${image.createdAt}` : undefined,
+      image.variants?.length ? `Platforms: ${image.variants.map(variant => variant.platform).join(', ')}` : undefined
     ].filter(Boolean);
     this.tooltip = lines.join('\n');
     if (!this.actionsEnabled) {
@@ -38,8 +40,64 @@ export class ImageTreeItem extends vscode.TreeItem {
   }
 }
 
-export class ImagesTreeProvider implements vscode.TreeDataProvider<ImageTreeItem>, vscode.Disposable {
-  private readonly emitter = new vscode.EventEmitter<ImageTreeItem | undefined | null | void>();
+export class ImageVariantTreeItem extends vscode.TreeItem {
+  constructor(public readonly image: ImageSummary, public readonly variant: ImagePlatformVariant) {
+    super(variant.platform, vscode.TreeItemCollapsibleState.None);
+    this.description = variant.size;
+    this.tooltip = [
+      `Platform: ${variant.platform}`,
+      variant.digest ? `Digest: ${variant.digest}` : undefined,
+      variant.size ? `Size: ${variant.size}` : undefined
+    ].filter(Boolean).join('\n');
+    this.contextValue = 'image-variant';
+    this.iconPath = new vscode.ThemeIcon('chip');
+  }
+}
+
+type ImageTreeElement = ImageTreeItem | ImageVariantTreeItem;
+
+export interface ImagePruneCandidate {
+  image: ImageSummary;
+  dangling: boolean;
+}
+
+/** Images without a usable name, such as the previous build left behind when a tag is reused. */
+export function isDanglingImage(image: ImageSummary): boolean {
+  const repository = image.repository?.trim().toLowerCase();
+  const tag = image.tag?.trim().toLowerCase();
+  return !repository
+    || repository === 'unknown'
+    || repository === '<none>'
+    || repository === 'sha256'
+    || tag === '<none>';
+}
+
+/** Every reference an image may be removed by, most specific first. */
+export function buildImageRemovalReferences(image: ImageSummary): string[] {
+  const references = new Set<string>();
+  const repository = image.repository?.trim();
+  const tag = image.tag?.trim();
+  const digest = image.digest?.trim();
+  const id = image.id?.trim();
+
+  if (repository && tag) {
+    references.add(`${repository}:${tag}`);
+  }
+  if (repository) {
+    references.add(repository);
+  }
+  if (digest) {
+    references.add(digest);
+  }
+  if (id) {
+    references.add(id);
+  }
+
+  return Array.from(references);
+}
+
+export class ImagesTreeProvider implements vscode.TreeDataProvider<ImageTreeElement>, vscode.Disposable {
+  private readonly emitter = new vscode.EventEmitter<ImageTreeElement | undefined | null | void>();
   private items: ImageSummary[] = [];
   private serviceRunning = false;
   private usedImageRefs = new Set<string>();
@@ -62,23 +120,20 @@ export class ImagesTreeProvider implements vscode.TreeDataProvider<ImageTreeItem
       }
     };
     events.on('system:status', this.statusListener);
-    this.containersListener = containers => {
-      this.updateUsedImageRefs(containers);
-      this.applyUsageFlags();
-      this.emitter.fire();
-    };
+    this.containersListener = containers => this.updateUsage(containers);
     events.on('data:containers', this.containersListener);
   }
 
-  readonly onDidChangeTreeData: vscode.Event<ImageTreeItem | undefined | null | void> = this.emitter.event;
+  readonly onDidChangeTreeData: vscode.Event<ImageTreeElement | undefined | null | void> = this.emitter.event;
 
-  async refresh(): Promise<void> {
+  /** Reloads the image list; resolves to false when the images could not be listed. */
+  async refresh(): Promise<boolean> {
     if (!this.serviceRunning) {
       log('Skipping image refresh because system service is not running');
       this.items = [];
       this.usedImageRefs.clear();
       this.emitter.fire();
-      return;
+      return false;
     }
 
     try {
@@ -92,17 +147,26 @@ export class ImagesTreeProvider implements vscode.TreeDataProvider<ImageTreeItem
         log(`Image inventory: ${preview}`);
       }
       this.emitter.fire();
+      return true;
     } catch (error) {
       logError('Unable to refresh images', error);
       this.emitter.fire();
+      return false;
     }
   }
 
-  getTreeItem(element: ImageTreeItem): vscode.TreeItem {
+  getTreeItem(element: ImageTreeElement): vscode.TreeItem {
     return element;
   }
 
-  async getChildren(): Promise<ImageTreeItem[]> {
+  async getChildren(element?: ImageTreeElement): Promise<ImageTreeElement[]> {
+    if (element instanceof ImageTreeItem) {
+      return (element.image.variants ?? []).map(variant => new ImageVariantTreeItem(element.image, variant));
+    }
+    if (element) {
+      return [];
+    }
+
     if (!this.statusKnown) {
       return [
         new ImageTreeItem({
@@ -149,6 +213,21 @@ export class ImagesTreeProvider implements vscode.TreeDataProvider<ImageTreeItem
     return this.items.slice();
   }
 
+  /** Recomputes which images are in use from a fresh container list. */
+  updateUsage(containers: ContainerSummary[]): void {
+    this.updateUsedImageRefs(containers);
+    this.applyUsageFlags();
+    this.emitter.fire();
+  }
+
+  /** Images no container uses, dangling ones first. */
+  getPruneCandidates(): ImagePruneCandidate[] {
+    return this.items
+      .filter(image => !this.isImageInUse(image))
+      .map(image => ({ image, dangling: isDanglingImage(image) }))
+      .sort((a, b) => Number(b.dangling) - Number(a.dangling));
+  }
+
   private updateUsedImageRefs(containers: ContainerSummary[]): void {
     const refs = new Set<string>();
     for (const container of containers) {
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+
+import { ContainerCli, ContainerSummary, NetworkSummary } from '../cli/containerCli';
+import { ResourceTreeProvider } from './resourceTree';
+
+// Created by the container system service; it cannot be removed.
+export const DEFAULT_NETWORK = 'default';
+
+export class NetworkTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly network: NetworkSummary,
+    public readonly containers: ContainerSummary[],
+    private readonly actionsEnabled: boolean
+  ) {
+    super(
+      network.name,
+      containers.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+    );
+
+    if (network.name === 'empty-networks') {
+      this.label = network.state ?? 'No networks found';
+      this.iconPath = new vscode.ThemeIcon('info');
+      this.contextValue = 'network-info';
+      this.tooltip = 'No networks detected from Apple container CLI';
+      return;
+    }
+
+    this.description = [network.subnet, `${containers.length} container${containers.length === 1 ? '' : 's'}`].filter(Boolean).join(' · ');
+    const lines = [
+      `Network: ${network.name}`,
+      network.state ? `State: ${network.state}` : undefined,
+      network.mode ? `Mode: ${network.mode}` : undefined,
+      network.subnet ? `Subnet: ${network.subnet}` : undefined,
+      network.gateway ? `Gateway: ${network.gateway}` : undefined,
+      `Containers: ${containers.length > 0 ? containers.map(container => container.name || container.id).join(', ') : 'none'}`
+    ].filter(Boolean);
+    this.tooltip = lines.join('\n');
+    if (!this.actionsEnabled) {
+      this.contextValue = 'network-disabled';
+    } else if (network.name === DEFAULT_NETWORK || containers.length > 0) {
+      this.contextValue = 'network-in-use';
+    } else {
+      this.contextValue = 'network-deletable';
+    }
+    this.iconPath = new vscode.ThemeIcon('type-hierarchy-sub');
+  }
+}
+
+export class NetworkContainerTreeItem extends vscode.TreeItem {
+  constructor(public readonly container: ContainerSummary) {
+    super(container.name || container.id, vscode.TreeItemCollapsibleState.None);
+    this.description = container.status;
+    this.tooltip = [`Container: ${container.name || container.id}`, container.address ? `Addresses: ${container.address}` : undefined]
+      .filter(Boolean)
+      .join('\n');
+    this.contextValue = 'network-container';
+    this.iconPath = new vscode.ThemeIcon('vm');
+  }
+}
+
+type NetworkTreeElement = NetworkTreeItem | NetworkContainerTreeItem;
+
+/** Lists container networks with the containers attached to them. */
+export class NetworksTreeProvider extends ResourceTreeProvider<NetworkSummary, NetworkTreeElement> {
+  constructor(
+    private readonly cli: ContainerCli
+  ) {
+    super('networks');
+  }
+
+  getCurrentNetworks(): NetworkSummary[] {
+    return this.items.slice();
+  }
+
+  getAttachedContainers(networkName: string): ContainerSummary[] {
+    return this.containers.filter(container => container.networks?.includes(networkName));
+  }
+
+  protected load(): Promise<NetworkSummary[]> {
+    return this.cli.listNetworks();
+  }
+
+  protected referencedNames(container: ContainerSummary): string[] {
+    return container.networks ?? [];
+  }
+
+  protected createElement(network: NetworkSummary): NetworkTreeItem {
+    return new NetworkTreeItem(network, this.getAttachedContainers(network.name), this.serviceRunning);
+  }
+
+  protected getElementChildren(element: NetworkTreeElement): NetworkTreeElement[] {
+    return element instanceof NetworkTreeItem
+      ? element.containers.map(container => new NetworkContainerTreeItem(container))
+      : [];
+  }
+
+  protected placeholder(message: string): NetworkTreeItem {
+    return new NetworkTreeItem({ name: 'empty-networks', state: message }, [], false);
+  }
+}
@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+
+import { ContainerSummary } from '../cli/containerCli';
+import { events, SystemStatusPayload } from '../core/events';
+import { log, logError } from '../core/logger';
+
+/**
+ * Shared behavior of the Volumes and Networks views. The resources are read from the CLI on an
+ * explicit refresh and when the system service starts; a container list change only recomputes
+ * which containers use each resource, unless a container references one that is not listed yet.
+ */
+export abstract class ResourceTreeProvider<TResource extends { name: string }, TElement extends vscode.TreeItem>
+implements vscode.TreeDataProvider<TElement>, vscode.Disposable {
+  protected readonly emitter = new vscode.EventEmitter<TElement | undefined | null | void>();
+  protected items: TResource[] = [];
+  protected containers: ContainerSummary[] = [];
+  protected serviceRunning = false;
+  private statusKnown = false;
+  private readonly statusListener: (payload: SystemStatusPayload) => void;
+  private readonly containersListener: (containers: ContainerSummary[]) => void;
+
+  readonly onDidChangeTreeData: vscode.Event<TElement | undefined | null | void> = this.emitter.event;
+
+  // `kind` is the plural resource name used in log messages and placeholders, e.g. "volumes".
+  constructor(private readonly kind: string) {
+    this.statusListener = payload => {
+      const started = payload.running && !this.serviceRunning;
+      this.statusKnown = true;
+      this.serviceRunning = payload.running;
+      if (!payload.running) {
+        log(`System reported stopped; clearing ${this.kind} list to avoid stale data`);
+        this.items = [];
+        this.containers = [];
+      }
+      this.emitter.fire();
+      if (started) {
+        void this.refresh();
+      }
+    };
+    events.on('system:status', this.statusListener);
+    this.containersListener = containers => {
+      this.containers = containers;
+      const listed = new Set(this.items.map(item => item.name));
+      const unknown = containers.some(container => this.referencedNames(container).some(name => !listed.has(name)));
+      if (this.serviceRunning && unknown) {
+        void this.refresh();
+      } else {
+        this.emitter.fire();
+      }
+    };
+    events.on('data:containers', this.containersListener);
+  }
+
+  async refresh(): Promise<void> {
+    if (!this.serviceRunning) {
+      log(`Skipping ${this.kind} refresh because system service is not running`);
+      this.items = [];
+      this.emitter.fire();
+      return;
+    }
+
+    try {
+      this.items = await this.load();
+      log(`Refreshed ${this.kind} (${this.items.length})`);
+      this.emitter.fire();
+    } catch (error) {
+      logError(`Unable to refresh ${this.kind}`, error);
+      this.emitter.fire();
+    }
+  }
+
+  getTreeItem(element: TElement): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: TElement): Promise<TElement[]> {
+    if (element) {
+      return this.getElementChildren(element);
+    }
+
+    if (!this.statusKnown) {
+      return [this.placeholder(`Detecting ${this.kind}…`)];
+    }
+
+    if (!this.serviceRunning) {
+      return [this.placeholder(`Start the Apple container system to view ${this.kind}`)];
+    }
+
+    if (this.items.length === 0) {
+      return [this.placeholder(`No ${this.kind}`)];
+    }
+
+    return this.items.map(item => this.createElement(item));
+  }
+
+  dispose(): void {
+    events.off('system:status', this.statusListener);
+    events.off('data:containers', this.containersListener);
+    this.emitter.dispose();
+  }
+
+  protected abstract load(): Promise<TResource[]>;
+
+  // Names of the resources of this kind the container uses.
+  protected abstract referencedNames(container: ContainerSummary): string[];
+
+  protected abstract createElement(resource: TResource): TElement;
+
+  protected abstract getElementChildren(element: TElement): TElement[];
+
+  protected abstract placeholder(message: string): TElement;
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 
 import { events, SystemStatusPayload } from '../core/events';
 import { log } from '../core/logger';
+import { RegistryEntry, RegistryManager } from '../core/registryManager';
 
 interface SystemNode {
   id: string;
@@ -11,11 +12,13 @@ interface SystemNode {
   iconId?: string;
   tooltip?: string;
   latestUrl?: string;
+  expandable?: boolean;
+  registry?: RegistryEntry;
 }
 
 export class SystemTreeItem extends vscode.TreeItem {
   constructor(public readonly node: SystemNode) {
-    super(node.label, vscode.TreeItemCollapsibleState.None);
+    super(node.label, node.expandable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
     this.description = node.description;
     this.contextValue = node.context;
     this.tooltip = node.tooltip;
@@ -33,6 +36,10 @@ export class SystemTreeItem extends vscode.TreeItem {
   get latestUrl(): string | undefined {
     return this.node.latestUrl;
   }
+
+  get registry(): RegistryEntry | undefined {
+    return this.node.registry;
+  }
 }
 
 export class SystemTreeProvider implements vscode.TreeDataProvider<SystemTreeItem>, vscode.Disposable {
@@ -44,8 +51,9 @@ export class SystemTreeProvider implements vscode.TreeDataProvider<SystemTreeIte
   private updateAvailable = false;
   private statusKnown = false;
   private readonly statusListener: (payload: SystemStatusPayload) => void;
+  private readonly registryListener?: vscode.Disposable;
 
-  constructor() {
+  constructor(private readonly registries?: RegistryManager) {
     this.statusListener = payload => {
       log(`System status event received (running=${payload.running}, localVersion=${payload.localVersion ?? 'unknown'}, latest=${payload.latestVersion ?? 'unknown'}, updateAvailable=${payload.updateAvailable ?? false})`);
       this.statusKnown = true;
@@ -68,6 +76,7 @@ export class SystemTreeProvider implements vscode.TreeDataProvider<SystemTreeIte
 
     this.syncContexts();
     events.on('system:status', this.statusListener);
+    this.registryListener = registries?.onDidChange(() => this.emitter.fire());
   }
 
   readonly onDidChangeTreeData: vscode.Event<SystemTreeItem | undefined | null | void> = this.emitter.event;
@@ -76,7 +85,14 @@ export class SystemTreeProvider implements vscode.TreeDataProvider<SystemTreeIte
     return element;
   }
 
-  getChildren(): vscode.ProviderResult<SystemTreeItem[]> {
+  getChildren(element?: SystemTreeItem): vscode.ProviderResult<SystemTreeItem[]> {
+    if (element?.node.id === 'system-registries') {
+      return this.buildRegistryNodes().map(node => new SystemTreeItem(node));
+    }
+    if (element) {
+      return [];
+    }
+
     if (!this.statusKnown) {
       const nodes: SystemNode[] = [
         {
@@ -119,11 +135,25 @@ export class SystemTreeProvider implements vscode.TreeDataProvider<SystemTreeIte
       }
     ];
 
+    if (this.registries) {
+      const count = this.registries.list().length;
+      nodes.push({
+        id: 'system-registries',
+        label: 'Registries',
+        description: count > 0 ? `${count} configured` : 'None',
+        context: 'system-registries',
+        iconId: 'key',
+        tooltip: 'Registries the container CLI holds credentials for, and registries you logged in to from this extension.',
+        expandable: true
+      });
+    }
+
     return nodes.map(node => new SystemTreeItem(node));
   }
 
   dispose(): void {
     events.off('system:status', this.statusListener);
+    this.registryListener?.dispose();
     this.emitter.dispose();
   }
 
@@ -131,6 +161,44 @@ export class SystemTreeProvider implements vscode.TreeDataProvider<SystemTreeIte
     return this.latestUrl;
   }
 
+  private buildRegistryNodes(): SystemNode[] {
+    const entries = this.registries?.list() ?? [];
+    if (entries.length === 0) {
+      return [{
+        id: 'registry-empty',
+        label: 'No registries',
+        description: 'Log in to pull private images',
+        context: 'registry-empty',
+        iconId: 'info'
+      }];
+    }
+
+    return entries.map(entry => ({
+      id: `registry-${entry.server}`,
+      label: entry.server,
+      description: this.describeRegistryLogin(entry),
+      context: entry.loggedIn ? 'registry-logged-in' : 'registry-logged-out',
+      iconId: entry.loggedIn ? 'pass' : entry.loggedIn === false ? 'warning' : 'question',
+      tooltip: [
+        `Registry: ${entry.server}`,
+        entry.username ? `User: ${entry.username}` : undefined,
+        entry.lastLogin ? `Last login: ${new Date(entry.lastLogin).toLocaleString()}` : undefined
+      ].filter(Boolean).join('\n'),
+      registry: entry
+    }));
+  }
+
+  private describeRegistryLogin(entry: RegistryEntry): string {
+    const user = entry.username ? ` (${entry.username})` : '';
+    if (entry.loggedIn === undefined) {
+      return `Login status unknown${user}`;
+    }
+    if (!entry.loggedIn) {
+      return `Logged out${user}`;
+    }
+    return entry.username ? `Logged in as ${entry.username}` : 'Logged in';
+  }
+
   private buildLatestTooltip(): string {
     if (!this.latestVersion) {
       return 'Latest GitHub release version unavailable.';
@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+
+import { ContainerCli, ContainerSummary, VolumeSummary } from '../cli/containerCli';
+import { ResourceTreeProvider } from './resourceTree';
+
+export class VolumeTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly volume: VolumeSummary,
+    public readonly usedBy: string[],
+    private readonly actionsEnabled: boolean
+  ) {
+    super(volume.name, vscode.TreeItemCollapsibleState.None);
+
+    if (volume.name === 'empty-volumes') {
+      this.label = volume.source ?? 'No volumes found';
+      this.iconPath = new vscode.ThemeIcon('info');
+      this.contextValue = 'volume-info';
+      this.tooltip = 'No volumes detected from Apple container CLI';
+      return;
+    }
+
+    const inUse = usedBy.length > 0;
+    this.description = [volume.size, inUse ? `used by ${usedBy.length}` : 'unused'].filter(Boolean).join(' · ');
+    const lines = [
+      `Volume: ${volume.name}`,
+      volume.size ? `Size: ${volume.size}` : undefined,
+      volume.driver ? `Driver: ${volume.driver}` : undefined,
+      volume.format ? `Format: ${volume.format}` : undefined,
+      volume.source ? `Source: ${volume.source}` : undefined,
+      volume.createdAt ? `Created: ${volume.createdAt}` : undefined,
+      `Used by: ${inUse ? usedBy.join(', ') : 'no containers'}`
+    ].filter(Boolean);
+    this.tooltip = lines.join('\n');
+    if (!this.actionsEnabled) {
+      this.contextValue = 'volume-disabled';
+    } else if (inUse) {
+      this.contextValue = 'volume-in-use';
+    } else {
+      this.contextValue = 'volume-deletable';
+    }
+    this.iconPath = new vscode.ThemeIcon(inUse ? 'database' : 'circle-outline');
+  }
+}
+
+/** Lists named volumes with the containers that mount them. */
+export class VolumesTreeProvider extends ResourceTreeProvider<VolumeSummary, VolumeTreeItem> {
+  constructor(
+    private readonly cli: ContainerCli
+  ) {
+    super('volumes');
+  }
+
+  getCurrentVolumes(): VolumeSummary[] {
+    return this.items.slice();
+  }
+
+  /** Names of the containers that mount the given volume. */
+  getUsers(volumeName: string): string[] {
+    return this.containers
+      .filter(container => container.namedVolumes?.includes(volumeName))
+      .map(container => container.name || container.id);
+  }
+
+  protected load(): Promise<VolumeSummary[]> {
+    return this.cli.listVolumes();
+  }
+
+  protected referencedNames(container: ContainerSummary): string[] {
+    return container.namedVolumes ?? [];
+  }
+
+  protected createElement(volume: VolumeSummary): VolumeTreeItem {
+    return new VolumeTreeItem(volume, this.getUsers(volume.name), this.serviceRunning);
+  }
+
+  protected getElementChildren(): VolumeTreeItem[] {
+    return [];
+  }
+
+  protected placeholder(message: string): VolumeTreeItem {
+    return new VolumeTreeItem({ name: 'empty-volumes', source: message }, [], false);
+  }
+}